@@ -1,84 +1,257 @@
 import { AzureOpenAI } from "openai";
+import { TokenCredential, getBearerTokenProvider } from "@azure/identity";
+import { LlmProvider } from "./LlmProvider";
+import { OpenAIChatMapper } from "./OpenAIChatMapper";
+import { LlmRequest } from "../models/LlmRequest";
+import { LlmResponse } from "../models/LlmResponse";
+import { LlmSettings } from "../models/LlmSettings";
+import { LlmToolCall } from "../models/LlmTool";
+import { LlmUsage } from "../models/LlmUsage";
+import { LlmTokenLogprob } from "../models/LlmTokenLogprob";
+
+/**
+ * Scope requested for Microsoft Entra ID tokens when authenticating with a token credential.
+ */
+const COGNITIVE_SERVICES_SCOPE = "https://cognitiveservices.azure.com/.default";
 
 /**
  * Wrapper class for Azure OpenAI API configuration and client.
+ * Implements {@link LlmProvider} so it can be passed to the execution engine.
+ *
+ * Settings passed to the constructor take precedence over the environment variables. Authenticates with an
+ * API key, or with a Microsoft Entra ID token credential (e.g. `DefaultAzureCredential` from `@azure/identity`).
  *
  * @class AOAI
- * @property {string | undefined} AOAI_API_KEY - The API key for Azure OpenAI, loaded from environment variable 'AOAI_API_KEY'.
- * @property {string | undefined} AOAI_ENDPOINT - The endpoint URL for Azure OpenAI, loaded from environment variable 'AOAI_ENDPOINT'.
- * @property {string | undefined} AOAI_DEPLOYMENT - The deployment name for the Azure OpenAI model (default: "gpt-4.1").
- * @property {string | undefined} AOAI_API_VERSION - The API version for Azure OpenAI (default: "2024-10-21").
- * @property {AzureOpenAI} client - The AzureOpenAI client instance.
+ * @implements {LlmProvider}
+ * @property {string | undefined} AOAI_API_KEY - The API key for Azure OpenAI (default: environment variable 'AOAI_API_KEY').
+ * @property {string | undefined} AOAI_ENDPOINT - The endpoint URL for Azure OpenAI (default: environment variable 'AOAI_ENDPOINT').
+ * @property {string} AOAI_DEPLOYMENT - The deployment name (default: environment variable 'AOAI_DEPLOYMENT', then "gpt-4.1").
+ * @property {string} AOAI_API_VERSION - The API version (default: environment variable 'AOAI_API_VERSION', then "2024-10-21").
+ * @property {LlmSettings} settings - Default temperature, max tokens and timeout of requests.
+ * @property {boolean} supportsLogprobs - Whether token logprobs are requested (default: false).
+ * @property {AzureOpenAI} client - The AzureOpenAI client instance for the default API version.
  */
-export class AOAI {
+export class AOAI implements LlmProvider {
 
   /**
-   * The API key for Azure OpenAI, loaded from environment variable 'AOAI_API_KEY'.
+   * Short identifier of the provider.
    */
-  AOAI_API_KEY: string | undefined = process.env['AOAI_API_KEY'];
+  readonly name: string = 'azure-openai';
 
   /**
-   * The endpoint URL for Azure OpenAI, loaded from environment variable 'AOAI_ENDPOINT'.
+   * Azure OpenAI supports JSON mode and JSON Schema structured output from API version 2024-08-01 onwards.
    */
-  AOAI_ENDPOINT: string | undefined = process.env['AOAI_ENDPOINT'];
+  readonly supportsStructuredOutput: boolean = true;
 
   /**
-   * The deployment name for the Azure OpenAI model (default: "gpt-4.1").
+   * Azure OpenAI chat deployments support function calling.
    */
-  AOAI_DEPLOYMENT: string | undefined = "gpt-4.1";
+  readonly supportsToolCalls: boolean = true;
 
   /**
-   * The API version for Azure OpenAI (default: "2024-10-21").
+   * Whether token logprobs are requested. Opt-in, since reasoning (o-series) deployments reject them.
    */
-  AOAI_API_VERSION: string | undefined = "2024-10-21";
+  readonly supportsLogprobs: boolean;
 
   /**
-   * The AzureOpenAI client instance.
+   * The API key for Azure OpenAI (default: environment variable 'AOAI_API_KEY').
+   */
+  AOAI_API_KEY: string | undefined;
+
+  /**
+   * The endpoint URL for Azure OpenAI (default: environment variable 'AOAI_ENDPOINT').
+   */
+  AOAI_ENDPOINT: string | undefined;
+
+  /**
+   * The deployment name (default: environment variable 'AOAI_DEPLOYMENT', then "gpt-4.1").
+   */
+  AOAI_DEPLOYMENT: string;
+
+  /**
+   * The API version (default: environment variable 'AOAI_API_VERSION', then "2024-10-21").
+   */
+  AOAI_API_VERSION: string;
+
+  /**
+   * Default temperature, max tokens and timeout of requests. Requests may override each of them.
+   */
+  settings: LlmSettings;
+
+  /**
+   * The AzureOpenAI client instance for the default API version.
    */
   client: AzureOpenAI;
 
+  /**
+   * Clients by API version, for requests that override the API version.
+   * @private
+   */
+  private clients: Map<string, AzureOpenAI> = new Map();
+
+  /**
+   * Token provider used instead of an API key when a credential is configured.
+   * @private
+   */
+  private tokenProvider: (() => Promise<string>) | undefined;
+
+  /**
+   * Retries of failed requests by the SDK, when configured.
+   * @private
+   */
+  private maxRetries: number | undefined;
+
   /**
    * Constructs a new AOAI instance and initializes the AzureOpenAI client.
-   * 
+   *
    * @constructor
-   * @throws {Error} If AOAI_API_KEY or AOAI_ENDPOINT is not set in the environment variables.
+   * @param {object} [options] - Optional settings; each falls back to its environment variable.
+   * @param {string} [options.apiKey] - API key (default: AOAI_API_KEY). Not needed when a credential is given.
+   * @param {string} [options.endpoint] - Endpoint URL (default: AOAI_ENDPOINT).
+   * @param {TokenCredential} [options.credential] - Microsoft Entra ID credential used instead of an API key,
+   *   e.g. `new DefaultAzureCredential()`.
+   * @param {string} [options.deployment] - Default deployment (default: `options.model`, then AOAI_DEPLOYMENT, then
+   *   "gpt-4.1").
+   * @param {string} [options.model] - Default deployment when `options.deployment` is not set.
+   * @param {string} [options.apiVersion] - Default API version (default: AOAI_API_VERSION, then "2024-10-21").
+   * @param {number} [options.temperature] - Default sampling temperature (default: server default).
+   * @param {number} [options.maxTokens] - Default maximum completion tokens (default: server default).
+   * @param {number} [options.timeout] - Default request timeout in milliseconds (default: the SDK's 10 minutes).
+   * @param {number} [options.maxRetries] - Retries of failed requests by the SDK (default: the SDK's 2). Set to 0 when
+   *   calls are scheduled by an {@link LlmScheduler}, which retries on its own.
+   * @param {boolean} [options.logprobs] - Whether to request token logprobs for confidence scoring (default: false).
+   *   Leave off for reasoning (o-series) deployments, which reject the parameter.
+   * @throws {Error} If no endpoint is set, or neither an API key nor a credential is available.
    */
-  constructor() {
-    if (!this.AOAI_API_KEY || !this.AOAI_ENDPOINT) {
-      throw new Error('AOAI_API_KEY and AOAI_ENDPOINT must be set');
+  constructor(options: LlmSettings & { apiKey?: string; endpoint?: string; credential?: TokenCredential; maxRetries?: number; logprobs?: boolean } = {}) {
+    this.AOAI_API_KEY = options.apiKey ?? process.env['AOAI_API_KEY'];
+    this.AOAI_ENDPOINT = options.endpoint ?? process.env['AOAI_ENDPOINT'];
+    // As for engine and endpoint settings, the model name serves as deployment when no deployment is given
+    this.AOAI_DEPLOYMENT = options.deployment ?? options.model ?? process.env['AOAI_DEPLOYMENT'] ?? "gpt-4.1";
+    this.AOAI_API_VERSION = options.apiVersion ?? process.env['AOAI_API_VERSION'] ?? "2024-10-21";
+    this.supportsLogprobs = options.logprobs ?? false;
+    this.settings = {
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+      ...(options.maxTokens !== undefined ? { maxTokens: options.maxTokens } : {}),
+      ...(options.timeout !== undefined ? { timeout: options.timeout } : {})
+    };
+
+    if (!this.AOAI_ENDPOINT || (!this.AOAI_API_KEY && !options.credential)) {
+      throw new Error('AOAI_ENDPOINT and either AOAI_API_KEY or a token credential must be set');
     }
 
-    this.client = new AzureOpenAI({
-      deployment: this.AOAI_DEPLOYMENT,
-      apiKey: this.AOAI_API_KEY, 
-      endpoint: this.AOAI_ENDPOINT,
-      apiVersion: this.AOAI_API_VERSION
-    });
+    if (options.credential) {
+      this.tokenProvider = getBearerTokenProvider(options.credential, COGNITIVE_SERVICES_SCOPE);
+    }
+    this.maxRetries = options.maxRetries;
+
+    this.client = this.getClient(this.AOAI_API_VERSION);
   }
 
   /**
-   * Sends a chat message to the Azure OpenAI model and returns the response as a string.
+   * The deployment used when a request does not name one.
+   */
+  get defaultModel(): string {
+    return this.AOAI_DEPLOYMENT;
+  }
+
+  /**
+   * Returns the client for an API version, creating it on first use.
    *
-   * @param {string} input - The user input to send to the model.
-   * @param {string} [model="gpt-4.1"] - The model deployment name to use (default: "gpt-4.1").
-   * @returns {Promise<string>} The response from the model as a string.
-   * @throws {Error} If the chat completion request fails.
+   * @param {string} apiVersion - The API version.
+   * @returns {AzureOpenAI} The client.
+   * @private
    */
-  async chat(input: string, model: string = "gpt-4.1"): Promise<string> {
-    return new Promise(async (resolve, reject) => {
-      const events = await this.client.chat.completions.create({
-        stream: true,
-        messages: [{ role: "user", content: input }],
-        max_tokens: 128,
-        model: model
+  private getClient(apiVersion: string): AzureOpenAI {
+    let client = this.clients.get(apiVersion);
+    if (!client) {
+      // A token provider and an API key are mutually exclusive; the credential wins when both are configured
+      client = new AzureOpenAI({
+        deployment: this.AOAI_DEPLOYMENT,
+        endpoint: this.AOAI_ENDPOINT,
+        apiVersion,
+        ...(this.tokenProvider ? { azureADTokenProvider: this.tokenProvider } : { apiKey: this.AOAI_API_KEY }),
+        ...(this.settings.timeout !== undefined ? { timeout: this.settings.timeout } : {}),
+        ...(this.maxRetries !== undefined ? { maxRetries: this.maxRetries } : {})
       });
-      let response = '';
+      this.clients.set(apiVersion, client);
+    }
+    return client;
+  }
+
+  /**
+   * Sends a chat completion request to the Azure OpenAI model using a streaming response.
+   *
+   * Temperature, max tokens, API version and timeout of the request override the provider defaults.
+   *
+   * @param {LlmRequest} request - The messages and optional deployment name to use (default: AOAI_DEPLOYMENT).
+   * @returns {Promise<LlmResponse>} The concatenated completion text, any requested tool calls, the token usage, the token logprobs when requested, and the deployment that produced it.
+   * @throws {Error} If the chat completion request fails, or the stream fails after the request was accepted (with the
+   *   stream error as `cause`).
+   */
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const model = request.model ?? this.AOAI_DEPLOYMENT;
+    const temperature = request.temperature ?? this.settings.temperature;
+    const maxTokens = request.maxTokens ?? this.settings.maxTokens;
+    const responseFormat = OpenAIChatMapper.toResponseFormat(request.responseFormat);
+    const tools = OpenAIChatMapper.toTools(request.tools);
+    const client = this.getClient(request.apiVersion ?? this.AOAI_API_VERSION);
+    const events = await client.chat.completions.create({
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: OpenAIChatMapper.toMessages(request.messages),
+      model: model,
+      ...(temperature !== undefined ? { temperature } : {}),
+      ...(maxTokens !== undefined ? { max_tokens: maxTokens } : {}),
+      ...(this.supportsLogprobs && request.logprobs ? { logprobs: true } : {}),
+      ...(responseFormat ? { response_format: responseFormat } : {}),
+      ...(tools ? { tools } : {})
+    }, request.timeout !== undefined ? { timeout: request.timeout } : undefined);
+    let response = '';
+    let usage: LlmUsage | undefined;
+    const toolCalls: LlmToolCall[] = [];
+    const logprobs: LlmTokenLogprob[] = [];
+    try {
       for await (const event of events) {
+        // The final chunk carries the usage of the whole request and no choices
+        usage = OpenAIChatMapper.fromUsage(event.usage) ?? usage;
         for (const choice of event.choices) {
           response += choice.delta?.content ?? '';
+          OpenAIChatMapper.accumulateToolCallDeltas(toolCalls, choice.delta?.tool_calls);
+          logprobs.push(...OpenAIChatMapper.fromLogprobs(choice.logprobs?.content));
         }
       }
-      resolve(response);
+    } catch (error) {
+      // Error events and dropped connections surface mid-stream, after the request succeeded. A partial completion
+      // is never returned; the original error is kept as the cause, so that callers can tell throttling from failures.
+      throw new Error(
+        `Azure OpenAI stream from ${model} failed after ${response.length} characters: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
+      );
+    }
+    const completedToolCalls = toolCalls.filter(call => call !== undefined);
+    return {
+      content: response,
+      model,
+      ...(completedToolCalls.length > 0 ? { toolCalls: completedToolCalls } : {}),
+      ...(usage ? { usage } : {}),
+      ...(logprobs.length > 0 ? { logprobs } : {})
+    };
+  }
+
+  /**
+   * Sends a chat message to the Azure OpenAI model and returns the response as a string.
+   *
+   * @param {string} input - The user input to send to the model.
+   * @param {string} [model] - The model deployment name to use (default: AOAI_DEPLOYMENT).
+   * @returns {Promise<string>} The response from the model as a string.
+   * @throws {Error} If the chat completion request fails.
+   */
+  async chat(input: string, model?: string): Promise<string> {
+    const response = await this.complete({
+      messages: [{ role: "user", content: input }],
+      ...(model ? { model } : {})
     });
+    return response.content;
   }
-}
\ No newline at end of file
+}
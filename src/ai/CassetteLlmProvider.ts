@@ -0,0 +1,216 @@
+import fs from 'fs';
+import path from 'path';
+import { LlmProvider } from "./LlmProvider";
+import { LlmRequest } from "../models/LlmRequest";
+import { LlmResponse } from "../models/LlmResponse";
+import { CanonicalJson } from "../utils/CanonicalJson";
+
+/**
+ * Operating mode of a cassette provider.
+ *
+ * @property record - Forward requests to the wrapped provider and save every completion to the cassette file.
+ * @property replay - Serve completions from the cassette file only; unrecorded prompts throw.
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * A single recorded interaction stored in a cassette file.
+ *
+ * @property request - The request that was sent, kept for human review of fixtures.
+ * @property response - The raw completion returned by the provider.
+ * @property recordedAt - ISO timestamp of the recording.
+ */
+export interface CassetteEntry {
+  request: LlmRequest;
+  response: LlmResponse;
+  recordedAt: string;
+}
+
+/**
+ * On-disk format of a cassette fixture file.
+ *
+ * @property version - Format version.
+ * @property interactions - Recorded interactions keyed by request hash.
+ */
+export interface CassetteFile {
+  version: 1;
+  interactions: Record<string, CassetteEntry>;
+}
+
+/**
+ * LLM provider that records completions to a JSON fixture file and replays them offline.
+ *
+ * In `record` mode every request is forwarded to the wrapped provider and the completion is stored
+ * under a hash of the request. In `replay` mode completions are served from the file and any
+ * request without a recording fails loudly, so flow tests stay deterministic and never reach the network.
+ *
+ * @class CassetteLlmProvider
+ * @implements {LlmProvider}
+ */
+export class CassetteLlmProvider implements LlmProvider {
+
+  /**
+   * Short identifier of the provider.
+   */
+  readonly name: string;
+
+  /**
+   * Mirrors the recorded provider's structured output support. Replayed completions are treated as free-form text.
+   */
+  readonly supportsStructuredOutput: boolean;
+
+  /**
+   * Mirrors the recorded provider's tool call support. Recorded tool calls are replayed verbatim.
+   */
+  readonly supportsToolCalls: boolean;
+
+  /**
+   * Mirrors the recorded provider's logprobs support. When replaying, inferred from whether the recorded requests
+   * asked for logprobs, so replayed requests hash the same as recorded ones.
+   */
+  readonly supportsLogprobs: boolean;
+
+  /**
+   * Completions are stored under a hash of the request, so identical requests always get the same completion.
+   */
+  readonly replaysCompletions: boolean = true;
+
+  /**
+   * The recorded provider's default model. Unknown when replaying.
+   */
+  readonly defaultModel: string | undefined;
+
+  /**
+   * The current operating mode.
+   */
+  readonly mode: CassetteMode;
+
+  /**
+   * Path of the cassette fixture file.
+   */
+  readonly filePath: string;
+
+  /**
+   * Provider that produces completions in record mode.
+   * @private
+   */
+  private inner: LlmProvider | undefined;
+
+  /**
+   * Loaded cassette contents.
+   * @private
+   */
+  private cassette: CassetteFile;
+
+  /**
+   * Creates a cassette provider.
+   *
+   * @param options - Cassette settings.
+   * @param options.filePath - Path of the fixture file to read and write.
+   * @param options.mode - 'record' or 'replay'.
+   * @param options.provider - The provider to record from. Required in record mode.
+   * @throws {Error} If record mode has no provider, or replay mode cannot read the fixture file.
+   */
+  constructor(options: { filePath: string; mode: CassetteMode; provider?: LlmProvider }) {
+    this.filePath = options.filePath;
+    this.mode = options.mode;
+    this.inner = options.provider;
+
+    if (this.mode === 'record') {
+      if (!this.inner) {
+        throw new Error('CassetteLlmProvider in record mode requires a provider to record from');
+      }
+      this.name = `cassette(${this.inner.name})`;
+      this.supportsStructuredOutput = this.inner.supportsStructuredOutput ?? false;
+      this.supportsToolCalls = this.inner.supportsToolCalls ?? false;
+      this.supportsLogprobs = this.inner.supportsLogprobs ?? false;
+      this.defaultModel = this.inner.defaultModel;
+      this.cassette = fs.existsSync(this.filePath)
+        ? this.readCassette()
+        : { version: 1, interactions: {} };
+    } else {
+      if (!fs.existsSync(this.filePath)) {
+        throw new Error(`Cassette file not found for replay: ${this.filePath}`);
+      }
+      this.name = 'cassette(replay)';
+      this.supportsStructuredOutput = false;
+      this.supportsToolCalls = true;
+      this.defaultModel = undefined;
+      this.cassette = this.readCassette();
+      this.supportsLogprobs = Object.values(this.cassette.interactions).some(entry => entry.request.logprobs === true);
+    }
+  }
+
+  /**
+   * Computes the stable hash identifying a request in the cassette.
+   *
+   * @param request - The request to hash.
+   * @returns A hex-encoded SHA-256 hash of the canonical request JSON.
+   */
+  static hashRequest(request: LlmRequest): string {
+    return CanonicalJson.hash(request);
+  }
+
+  /**
+   * Returns the number of interactions stored in the cassette.
+   */
+  get size(): number {
+    return Object.keys(this.cassette.interactions).length;
+  }
+
+  /**
+   * Records or replays a completion, depending on the mode.
+   *
+   * @param request - The completion request.
+   * @returns The recorded or freshly produced completion.
+   * @throws {Error} In replay mode, if the request was never recorded.
+   */
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const hash = CassetteLlmProvider.hashRequest(request);
+
+    if (this.mode === 'replay') {
+      const entry = this.cassette.interactions[hash];
+      if (!entry) {
+        const prompt = request.messages.map(message => message.content).join('\n').slice(0, 200);
+        throw new Error(
+          `Unrecorded LLM request in replay mode (hash ${hash}, cassette ${this.filePath}).\n` +
+          `Re-run in record mode to capture it. Prompt starts with:\n${prompt}`
+        );
+      }
+      return { ...entry.response };
+    }
+
+    const response = await this.inner!.complete(request);
+    this.cassette.interactions[hash] = {
+      request,
+      response,
+      recordedAt: new Date().toISOString()
+    };
+    this.save();
+
+    return response;
+  }
+
+  /**
+   * Writes the cassette to disk, creating parent directories as needed.
+   */
+  save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.cassette, null, 2), 'utf8');
+  }
+
+  /**
+   * Reads and parses the cassette file.
+   *
+   * @returns The parsed cassette.
+   * @throws {Error} If the file is not a valid cassette.
+   * @private
+   */
+  private readCassette(): CassetteFile {
+    const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    if (!parsed || typeof parsed !== 'object' || typeof parsed.interactions !== 'object') {
+      throw new Error(`Invalid cassette file: ${this.filePath}`);
+    }
+    return parsed as CassetteFile;
+  }
+}
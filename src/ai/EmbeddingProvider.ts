@@ -0,0 +1,24 @@
+/**
+ * Interface for text embedding backends used by {@link EndpointIndex} for semantic endpoint search.
+ * Implementations exist for OpenAI-compatible embedding APIs and a local deterministic hashing model.
+ */
+export interface EmbeddingProvider {
+  /**
+   * Short identifier of the provider, used in logs and diagnostics.
+   */
+  readonly name: string;
+
+  /**
+   * The embedding model. Stored with persisted indexes, whose vectors are only reused with the same model.
+   */
+  readonly model: string;
+
+  /**
+   * Embeds texts as vectors. Vectors of one provider and model have the same length and are compared by cosine
+   * similarity.
+   *
+   * @param texts - The texts to embed.
+   * @returns A promise that resolves to one vector per text, in input order.
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
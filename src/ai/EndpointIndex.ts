@@ -0,0 +1,233 @@
+import fs from 'fs';
+import path from 'path';
+import { EmbeddingProvider } from "./EmbeddingProvider";
+import { ApiEndpoint } from "../models/ApiEndpoint";
+import { EndpointSearchResult } from "../models/EndpointSearchResult";
+import { ParameterDefinition } from "../models/ParameterDefinition";
+import { CanonicalJson } from "../utils/CanonicalJson";
+
+/**
+ * On-disk format of an endpoint index file.
+ *
+ * @property version - Format version.
+ * @property provider - Name of the embedding provider that produced the vectors.
+ * @property model - Embedding model of the vectors.
+ * @property entries - Vectors by endpoint id, with the hash of the text they were computed from.
+ */
+export interface EndpointIndexFile {
+  version: 1;
+  provider: string;
+  model: string;
+  entries: Record<string, { textHash: string; vector: number[] }>;
+}
+
+/**
+ * Embedding-based index of {@link ApiEndpoint}s for finding endpoints from a phrase such as "refund an order".
+ *
+ * Each endpoint is described by its name, description, method and path, and the names and descriptions of its
+ * parameters; the description is embedded with an {@link EmbeddingProvider} and searched by cosine similarity.
+ * Indexes can be saved to a JSON file and loaded again, re-embedding only endpoints whose description changed.
+ * Search results can narrow a large catalog down to the candidates given to `FlowPlanner` or `ApiAgent`.
+ *
+ * @class EndpointIndex
+ * @property {EmbeddingProvider} provider - The provider embedding descriptions and queries.
+ */
+export class EndpointIndex {
+  /**
+   * The provider embedding descriptions and queries.
+   * @private
+   */
+  private provider: EmbeddingProvider;
+
+  /**
+   * Indexed endpoints by id, with their vector and the hash of the embedded description.
+   * @private
+   */
+  private entries: Map<string, { endpoint: ApiEndpoint; textHash: string; vector: number[] }> = new Map();
+
+  /**
+   * Creates an empty index.
+   *
+   * @param provider - The provider embedding descriptions and queries.
+   */
+  constructor(provider: EmbeddingProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Number of indexed endpoints.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Creates an index from a saved file, reusing the stored vectors of endpoints whose description is unchanged and
+   * embedding the others. Stored entries of endpoints missing from the catalog are dropped. When the file does not
+   * exist, or was built with another embedding model, every endpoint is embedded.
+   *
+   * @param filePath - Path of the index file.
+   * @param provider - The provider embedding descriptions and queries.
+   * @param catalog - The endpoints to index; ids must be unique.
+   * @returns The index.
+   * @throws {Error} If the file exists but is not a valid index file.
+   */
+  static async load(filePath: string, provider: EmbeddingProvider, catalog: ApiEndpoint[]): Promise<EndpointIndex> {
+    const index = new EndpointIndex(provider);
+    let stored: EndpointIndexFile['entries'] = {};
+
+    if (fs.existsSync(filePath)) {
+      const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      if (!parsed || typeof parsed !== 'object' || typeof parsed.entries !== 'object') {
+        throw new Error(`Invalid endpoint index file: ${filePath}`);
+      }
+
+      const file = parsed as EndpointIndexFile;
+      if (file.model === provider.model) {
+        stored = file.entries;
+      } else {
+        console.warn(`⚠️ Endpoint index ${filePath} was built with model '${file.model}', re-embedding with '${provider.model}'`);
+      }
+    }
+
+    for (const endpoint of catalog) {
+      const entry = stored[endpoint.id];
+      if (entry && entry.textHash === CanonicalJson.hash(EndpointIndex.describe(endpoint))) {
+        index.entries.set(endpoint.id, { endpoint, textHash: entry.textHash, vector: entry.vector });
+      }
+    }
+
+    await index.add(catalog);
+    return index;
+  }
+
+  /**
+   * Builds the text embedded for an endpoint: name, description, method and path, and one line per path, query and
+   * body parameter (nested body fields as JSON paths) with its description.
+   *
+   * @param endpoint - The endpoint.
+   * @returns The description text.
+   */
+  static describe(endpoint: ApiEndpoint): string {
+    const lines = [
+      endpoint.name,
+      ...(endpoint.description ? [endpoint.description] : []),
+      `${endpoint.method} ${endpoint.path}`
+    ];
+
+    const describeParameters = (label: string, definitions: Record<string, ParameterDefinition>, prefix: string = ''): void => {
+      for (const [key, definition] of Object.entries(definitions)) {
+        const fieldPath = prefix ? `${prefix}.${key}` : key;
+        lines.push(`${label} ${fieldPath}${definition.description ? `: ${definition.description}` : ''}`);
+        if (definition.properties) describeParameters(label, definition.properties, fieldPath);
+        if (definition.items?.properties) describeParameters(label, definition.items.properties, fieldPath);
+      }
+    };
+
+    describeParameters('path parameter', endpoint.pathParams);
+    describeParameters('query parameter', endpoint.queryParams);
+    if (endpoint.body?.schema) describeParameters('body field', endpoint.body.schema);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Adds endpoints to the index, or updates them. Only endpoints that are new or whose description changed are
+   * embedded.
+   *
+   * @param endpoints - The endpoints to index; an endpoint replaces an indexed endpoint with the same id.
+   */
+  async add(endpoints: ApiEndpoint[]): Promise<void> {
+    const pending: Array<{ endpoint: ApiEndpoint; text: string; textHash: string }> = [];
+
+    for (const endpoint of endpoints) {
+      const text = EndpointIndex.describe(endpoint);
+      const textHash = CanonicalJson.hash(text);
+      const existing = this.entries.get(endpoint.id);
+
+      if (existing && existing.textHash === textHash) {
+        existing.endpoint = endpoint;
+      } else {
+        pending.push({ endpoint, text, textHash });
+      }
+    }
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    const vectors = await this.provider.embed(pending.map(item => item.text));
+    pending.forEach((item, i) => {
+      this.entries.set(item.endpoint.id, { endpoint: item.endpoint, textHash: item.textHash, vector: vectors[i]! });
+    });
+  }
+
+  /**
+   * Removes an endpoint from the index.
+   *
+   * @param endpointId - The id of the endpoint.
+   * @returns True if the endpoint was indexed.
+   */
+  remove(endpointId: string): boolean {
+    return this.entries.delete(endpointId);
+  }
+
+  /**
+   * Finds the endpoints whose descriptions are closest to a query.
+   *
+   * @param query - What the endpoint should do, e.g. "refund an order".
+   * @param k - Maximum number of results (default: 5).
+   * @returns Up to `k` endpoints, closest first.
+   */
+  async search(query: string, k: number = 5): Promise<EndpointSearchResult[]> {
+    if (this.entries.size === 0 || k <= 0) {
+      return [];
+    }
+
+    const [queryVector] = await this.provider.embed([query]);
+
+    return Array.from(this.entries.values())
+      .map(entry => ({ endpoint: entry.endpoint, score: this.cosineSimilarity(queryVector!, entry.vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  /**
+   * Writes the vectors to a JSON file, creating parent directories as needed. Endpoints themselves are not stored;
+   * pass the catalog to {@link EndpointIndex.load} to restore the index.
+   *
+   * @param filePath - Path of the index file.
+   */
+  save(filePath: string): void {
+    const file: EndpointIndexFile = {
+      version: 1,
+      provider: this.provider.name,
+      model: this.provider.model,
+      entries: Object.fromEntries(
+        Array.from(this.entries, ([id, entry]) => [id, { textHash: entry.textHash, vector: entry.vector }])
+      )
+    };
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(file), 'utf8');
+  }
+
+  /**
+   * Computes the cosine similarity of two vectors.
+   *
+   * @param a - The first vector.
+   * @param b - The second vector.
+   * @returns The similarity, or 0 when either vector is all zeros.
+   * @private
+   */
+  private cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      dot += a[i]! * b[i]!;
+      normA += a[i]! * a[i]!;
+      normB += b[i]! * b[i]!;
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+}
@@ -0,0 +1,120 @@
+import { ApiEndpoint } from "../models/ApiEndpoint";
+import { LlmToolDefinition } from "../models/LlmTool";
+import { JsonSchemaBuilder } from "../utils/JsonSchemaBuilder";
+
+/**
+ * Utility class for turning {@link ApiEndpoint} definitions into LLM tool (function calling) specs.
+ *
+ * Each tool takes a single arguments object with up to three sections, present only when the endpoint
+ * defines them: `path`, `query` and `body`, each derived from the endpoint's `ParameterDefinition`s.
+ *
+ * All methods are static and do not require instantiation.
+ */
+export class EndpointToolBuilder {
+
+  /**
+   * Builds tool specs for a set of endpoints, with names that are unique across the set.
+   *
+   * @param endpoints - The endpoints to expose as tools.
+   * @returns The tool definitions and a lookup from tool name to endpoint.
+   */
+  static buildTools(endpoints: ApiEndpoint[]): {
+    tools: LlmToolDefinition[];
+    endpointsByTool: Map<string, ApiEndpoint>;
+  } {
+    const tools: LlmToolDefinition[] = [];
+    const endpointsByTool = new Map<string, ApiEndpoint>();
+
+    for (const endpoint of endpoints) {
+      let name = this.toToolName(endpoint.name || endpoint.id);
+      for (let suffix = 2; endpointsByTool.has(name); suffix++) {
+        name = `${this.toToolName(endpoint.name || endpoint.id).slice(0, 60)}_${suffix}`;
+      }
+
+      tools.push(this.buildTool(endpoint, name));
+      endpointsByTool.set(name, endpoint);
+    }
+
+    return { tools, endpointsByTool };
+  }
+
+  /**
+   * Builds the tool spec of a single endpoint.
+   *
+   * @param endpoint - The endpoint to describe.
+   * @param name - (Optional) Tool name to use (default: derived from the endpoint name).
+   * @returns The tool definition.
+   */
+  static buildTool(endpoint: ApiEndpoint, name: string = this.toToolName(endpoint.name || endpoint.id)): LlmToolDefinition {
+    const properties: Record<string, any> = {};
+    const required: string[] = [];
+
+    if (Object.keys(endpoint.pathParams).length > 0) {
+      properties['path'] = {
+        ...JsonSchemaBuilder.fromParameters(endpoint.pathParams),
+        description: 'Values for the URL path parameters'
+      };
+      required.push('path');
+    }
+
+    if (Object.keys(endpoint.queryParams).length > 0) {
+      properties['query'] = {
+        ...JsonSchemaBuilder.fromParameters(endpoint.queryParams),
+        description: 'Values for the query string parameters'
+      };
+      if (Object.values(endpoint.queryParams).some(param => param.required)) {
+        required.push('query');
+      }
+    }
+
+    if (endpoint.body && endpoint.method !== 'GET') {
+      properties['body'] = endpoint.body.schema
+        ? { ...JsonSchemaBuilder.fromParameters(endpoint.body.schema), description: 'The request body' }
+        : { type: 'object', description: 'The request body' };
+      required.push('body');
+    }
+
+    return {
+      name,
+      description: this.describe(endpoint),
+      parameters: {
+        type: 'object',
+        properties,
+        required,
+        additionalProperties: false
+      }
+    };
+  }
+
+  /**
+   * Converts an arbitrary label into a valid tool name (letters, digits, underscores and dashes, max 64 characters).
+   *
+   * @param label - The endpoint name or id.
+   * @returns The tool name.
+   */
+  static toToolName(label: string): string {
+    const name = label
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 64);
+
+    return name || 'endpoint';
+  }
+
+  /**
+   * Builds the tool description from the endpoint's name, description, method and path.
+   *
+   * @param endpoint - The endpoint to describe.
+   * @returns The description text.
+   * @private
+   */
+  private static describe(endpoint: ApiEndpoint): string {
+    const parts = [`${endpoint.name} (${endpoint.method} ${endpoint.path}).`];
+    if (endpoint.description) {
+      parts.push(endpoint.description);
+    }
+    return parts.join(' ');
+  }
+}
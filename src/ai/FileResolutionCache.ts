@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import { InMemoryResolutionCache } from "./InMemoryResolutionCache";
+import { CachedResolution } from "../models/CachedResolution";
+
+/**
+ * On-disk format of a resolution cache file.
+ *
+ * @property version - Format version.
+ * @property entries - Cached resolutions keyed by resolution key.
+ */
+export interface ResolutionCacheFile {
+  version: 1;
+  entries: Record<string, CachedResolution>;
+}
+
+/**
+ * Resolution cache persisted to a JSON file, so resolutions survive across runs.
+ * The file is read once on construction and rewritten after every change.
+ *
+ * @class FileResolutionCache
+ * @extends {InMemoryResolutionCache}
+ */
+export class FileResolutionCache extends InMemoryResolutionCache {
+
+  /**
+   * Path of the cache file.
+   */
+  readonly filePath: string;
+
+  /**
+   * Creates a file-backed cache, loading existing entries if the file exists.
+   *
+   * @param options - Cache settings.
+   * @param options.filePath - Path of the JSON cache file.
+   * @param options.ttlMs - (Optional) Time-to-live of new entries in milliseconds (default: no expiry).
+   * @throws {Error} If the file exists but is not a valid cache file.
+   */
+  constructor(options: { filePath: string; ttlMs?: number }) {
+    super(options.ttlMs !== undefined ? { ttlMs: options.ttlMs } : {});
+    this.filePath = options.filePath;
+
+    if (fs.existsSync(this.filePath)) {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      if (!parsed || typeof parsed !== 'object' || typeof parsed.entries !== 'object') {
+        throw new Error(`Invalid resolution cache file: ${this.filePath}`);
+      }
+      this.entries = new Map(Object.entries((parsed as ResolutionCacheFile).entries));
+    }
+  }
+
+  /**
+   * Writes all entries to the cache file, creating parent directories as needed.
+   * @protected
+   */
+  protected persist(): void {
+    const file: ResolutionCacheFile = {
+      version: 1,
+      entries: Object.fromEntries(this.entries)
+    };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2), 'utf8');
+  }
+}
@@ -0,0 +1,387 @@
+import { PromptTemplateRegistry } from "./PromptTemplateRegistry";
+import { ApiExecutionEngine } from "../execution/ApiExecutionEngine";
+import { AiExecutionDetails } from "../models/AiExecutionDetails";
+import { ApiEndpoint } from "../models/ApiEndpoint";
+import { FlowPlan, FlowPlanConnection, FlowPlanContext, FlowPlanStep } from "../models/FlowPlan";
+import { LlmResponseFormat } from "../models/LlmResponseFormat";
+import { ParameterDefinition } from "../models/ParameterDefinition";
+import { SchemaProperty } from "../models/SchemaProperty";
+import { AiJsonUtils } from "../utils/AiJsonUtils";
+import { HttpResponseUtils } from "../utils/HttpResponseUtils";
+import { PromptSanitizer } from "../utils/PromptSanitizer";
+import { UsageAccounting } from "../utils/UsageAccounting";
+
+/**
+ * Plans a flow for a natural-language goal over a catalog of {@link ApiEndpoint}s.
+ *
+ * The planner picks the endpoints, writes each one's `naturalLanguageInput` and proposes the connections
+ * between them, returning a {@link FlowPlan} as plain data. The plan can be reviewed and edited before
+ * {@link FlowPlanner.build} turns it into endpoints for `ApiExecutionEngine.executeFlow`.
+ *
+ * @class FlowPlanner
+ * @property {ApiExecutionEngine} engine - The engine whose LLM provider generates plans.
+ * @property {ApiEndpoint[]} catalog - The endpoints plans may use.
+ * @property {PromptTemplateRegistry} templates - The registry holding the planning prompt.
+ */
+export class FlowPlanner {
+  /**
+   * The engine whose LLM provider generates plans; its calls are accounted like the engine's own.
+   * @private
+   */
+  private engine: ApiExecutionEngine;
+
+  /**
+   * The endpoints plans may use.
+   * @private
+   */
+  private catalog: ApiEndpoint[];
+
+  /**
+   * The registry holding the planning prompt ('flow-plan-prompt').
+   * @private
+   */
+  private templates: PromptTemplateRegistry;
+
+  /**
+   * Creates a planner over an endpoint catalog.
+   *
+   * @param engine - The engine whose LLM provider generates plans.
+   * @param catalog - The endpoints plans may use; ids must be unique.
+   * @param options - Optional settings.
+   * @param options.templates - Prompt template registry (default: the engine's templates).
+   */
+  constructor(engine: ApiExecutionEngine, catalog: ApiEndpoint[], options: { templates?: PromptTemplateRegistry } = {}) {
+    this.engine = engine;
+    this.catalog = catalog;
+    this.templates = options.templates ?? engine.templates;
+  }
+
+  /**
+   * Generates a plan for a goal. The returned plan is checked against the catalog and any problems are
+   * listed in `issues`; the plan is returned either way so it can be reviewed and corrected. Step ids already used by
+   * the context's earlier endpoints are given a suffix (e.g. `getUser-2`), since the model only sees the recent ones.
+   *
+   * @param goal - The natural-language goal.
+   * @param model - (Optional) Model or deployment to use instead of the one in the engine's LLM settings; the other
+   *   settings (temperature, max tokens, ...) apply either way.
+   * @param context - (Optional) Earlier steps and messages of a conversation; the goal may then refer to earlier
+   *   results, and steps may take values from earlier steps.
+   * @returns The generated plan, with the planning call and its usage.
+   * @throws {Error} If the engine has no LLM provider.
+   * @throws SyntaxError if the completion is not valid JSON.
+   */
+  public async plan(goal: string, model?: string, context?: FlowPlanContext): Promise<FlowPlan> {
+    const ai: AiExecutionDetails = { calls: [], attempts: [], usage: UsageAccounting.summarize([]) };
+    const response = await this.engine.completeMessages(
+      [{ role: 'user', content: this.renderPrompt(goal, context) }],
+      { responseFormat: this.buildResponseFormat(), purpose: 'planner', ai, model }
+    );
+
+    const raw = AiJsonUtils.parse(response.content, this.engine.llm?.supportsStructuredOutput ?? false);
+    const plan = this.normalizePlan(goal, raw);
+    plan.calls = ai.calls;
+    plan.usage = UsageAccounting.summarize(ai.calls);
+    this.renameReusedStepIds(plan, context);
+    plan.issues = this.validate(plan, context);
+
+    if (plan.issues.length > 0) {
+      console.warn(`⚠️ Flow plan has ${plan.issues.length} issue(s):`, plan.issues);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Checks a plan against the catalog: known endpoint ids, unique step ids, connections that only refer to
+   * earlier steps and existing target parameters, and compatible connection types.
+   *
+   * @param plan - The plan to check, typically after editing.
+   * @param context - (Optional) The context the plan was generated with; its earlier endpoints may be connection sources.
+   * @returns The problems found; empty when the plan can be built.
+   */
+  public validate(plan: FlowPlan, context?: FlowPlanContext): string[] {
+    const issues: string[] = [];
+    this.buildEndpoints(plan, issues, context);
+    return issues;
+  }
+
+  /**
+   * Builds the endpoints of a plan, ready to be passed to `executeFlow`. Each step becomes a copy of its
+   * catalog endpoint with the step id, the step's natural language input and the planned connections.
+   *
+   * @param plan - The (possibly edited) plan.
+   * @param context - (Optional) The context the plan was generated with; connections to its earlier endpoints read
+   *   their results from the engine's execution context.
+   * @returns The endpoints, in step order.
+   * @throws {Error} If the plan does not validate against the catalog.
+   */
+  public build(plan: FlowPlan, context?: FlowPlanContext): ApiEndpoint[] {
+    const issues: string[] = [];
+    const endpoints = this.buildEndpoints(plan, issues, context);
+
+    if (issues.length > 0) {
+      throw new Error(`Flow plan is invalid:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    }
+
+    return endpoints;
+  }
+
+  /**
+   * Builds the endpoints of a plan, collecting problems instead of throwing.
+   *
+   * @param plan - The plan to build.
+   * @param issues - Receives the problems found.
+   * @param context - (Optional) The conversation context; its earlier endpoints may be connection sources.
+   * @returns The endpoints that could be built (not including earlier endpoints).
+   * @private
+   */
+  private buildEndpoints(plan: FlowPlan, issues: string[], context?: FlowPlanContext): ApiEndpoint[] {
+    const previous = new Map((context?.previousEndpoints ?? []).map(endpoint => [endpoint.id, endpoint]));
+    const built = new Map<string, ApiEndpoint>();
+
+    for (const step of plan.steps) {
+      const template = this.catalog.find(endpoint => endpoint.id === step.endpointId);
+      if (!template) {
+        issues.push(`Step '${step.id}' uses unknown endpoint '${step.endpointId}'`);
+        continue;
+      }
+      if (built.has(step.id)) {
+        issues.push(`Step id '${step.id}' is used more than once`);
+        continue;
+      }
+      if (previous.has(step.id)) {
+        issues.push(`Step id '${step.id}' is already used by an earlier step`);
+        continue;
+      }
+
+      const endpoint = new ApiEndpoint({
+        ...template,
+        id: step.id,
+        naturalLanguageInput: step.naturalLanguageInput,
+        aiMapping: undefined,
+        connections: [],
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+
+      for (const connection of step.connections) {
+        const source = built.get(connection.sourceStepId) ?? previous.get(connection.sourceStepId);
+        if (!source) {
+          issues.push(`Step '${step.id}' takes '${connection.sourceField}' from '${connection.sourceStepId}', which is not an earlier step`);
+          continue;
+        }
+
+        try {
+          endpoint.addTypedConnection(
+            source.getResponseProperty(connection.sourceField),
+            this.getTargetProperty(endpoint, connection),
+            connection.mapping
+          );
+        } catch (error: any) {
+          issues.push(`Step '${step.id}' connection to ${connection.targetLocation} '${connection.targetField}': ${error.message}`);
+        }
+      }
+
+      built.set(step.id, endpoint);
+    }
+
+    return Array.from(built.values());
+  }
+
+  /**
+   * Gives steps whose id is already used by an earlier endpoint of the context the first free suffixed id, and points
+   * the connections of later steps to the renamed step. Connections listed before the renamed step keep referring to
+   * the earlier endpoint.
+   *
+   * @param plan - The normalized plan; updated in place.
+   * @param context - (Optional) The conversation context.
+   * @private
+   */
+  private renameReusedStepIds(plan: FlowPlan, context?: FlowPlanContext): void {
+    const previous = new Set((context?.previousEndpoints ?? []).map(endpoint => endpoint.id));
+    const taken = new Set([...previous, ...plan.steps.map(step => step.id)]);
+    const renamed = new Map<string, string>();
+
+    for (const step of plan.steps) {
+      for (const connection of step.connections) {
+        connection.sourceStepId = renamed.get(connection.sourceStepId) ?? connection.sourceStepId;
+      }
+
+      if (previous.has(step.id) && !renamed.has(step.id)) {
+        let suffix = 2;
+        while (taken.has(`${step.id}-${suffix}`)) {
+          suffix++;
+        }
+        const id = `${step.id}-${suffix}`;
+        taken.add(id);
+        renamed.set(step.id, id);
+        step.id = id;
+      }
+    }
+  }
+
+  /**
+   * Resolves the target property of a planned connection.
+   *
+   * @param endpoint - The target endpoint.
+   * @param connection - The planned connection.
+   * @returns The target schema property.
+   * @throws {Error} If the parameter does not exist on the endpoint.
+   * @private
+   */
+  private getTargetProperty(endpoint: ApiEndpoint, connection: FlowPlanConnection): SchemaProperty {
+    switch (connection.targetLocation) {
+      case 'path':
+        return endpoint.getPathProperty(connection.targetField);
+      case 'query':
+        return endpoint.getQueryProperty(connection.targetField);
+      case 'body':
+        return endpoint.getBodyProperty(connection.targetField);
+      default:
+        throw new Error(`Unsupported target location '${connection.targetLocation}'`);
+    }
+  }
+
+  /**
+   * Converts the model output into a plan, tolerating missing or mistyped fields.
+   *
+   * @param goal - The goal the plan was generated for.
+   * @param raw - The parsed model output.
+   * @returns The normalized plan (with empty `issues`).
+   * @private
+   */
+  private normalizePlan(goal: string, raw: any): FlowPlan {
+    const steps: FlowPlanStep[] = (Array.isArray(raw?.steps) ? raw.steps : []).map((step: any) => ({
+      id: String(step?.id ?? step?.endpointId ?? ''),
+      endpointId: String(step?.endpointId ?? ''),
+      naturalLanguageInput: String(step?.naturalLanguageInput ?? ''),
+      connections: (Array.isArray(step?.connections) ? step.connections : []).map((connection: any) => ({
+        sourceStepId: String(connection?.sourceStepId ?? ''),
+        sourceField: String(connection?.sourceField ?? ''),
+        targetLocation: connection?.targetLocation,
+        targetField: String(connection?.targetField ?? ''),
+        mapping: String(connection?.mapping ?? '')
+      }))
+    }));
+
+    return {
+      goal,
+      steps,
+      ...(typeof raw?.notes === 'string' && raw.notes.trim() ? { notes: raw.notes.trim() } : {}),
+      issues: []
+    };
+  }
+
+  /**
+   * Builds the structured output constraint for plans. Endpoint ids are restricted to the catalog.
+   *
+   * @returns The response format.
+   * @private
+   */
+  private buildResponseFormat(): LlmResponseFormat {
+    const connection = {
+      type: 'object',
+      properties: {
+        sourceStepId: { type: 'string' },
+        sourceField: { type: 'string' },
+        targetLocation: { type: 'string', enum: ['path', 'query', 'body'] },
+        targetField: { type: 'string' },
+        mapping: { type: 'string' }
+      },
+      required: ['sourceStepId', 'sourceField', 'targetLocation', 'targetField', 'mapping'],
+      additionalProperties: false
+    };
+
+    const step = {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        endpointId: { type: 'string', enum: this.catalog.map(endpoint => endpoint.id) },
+        naturalLanguageInput: { type: 'string' },
+        connections: { type: 'array', items: connection }
+      },
+      required: ['id', 'endpointId', 'naturalLanguageInput', 'connections'],
+      additionalProperties: false
+    };
+
+    return {
+      type: 'json_schema',
+      name: 'flow_plan',
+      schema: {
+        type: 'object',
+        properties: {
+          steps: { type: 'array', items: step },
+          notes: { type: 'string' }
+        },
+        required: ['steps', 'notes'],
+        additionalProperties: false
+      },
+      strict: true
+    };
+  }
+
+  /**
+   * Renders the planning prompt with the goal, the catalog and, in a conversation, the earlier messages and results.
+   *
+   * @param goal - The natural-language goal.
+   * @param context - (Optional) The conversation context.
+   * @returns The rendered prompt.
+   * @private
+   */
+  private renderPrompt(goal: string, context?: FlowPlanContext): string {
+    return this.templates.render('flow-plan-prompt', {
+      goal,
+      conversation: context?.conversation ?? [],
+      previousSteps: (context?.previousResults ?? []).map(result => ({
+        id: result.endpointId,
+        method: result.requestData.method,
+        url: result.requestData.url,
+        statusCode: result.statusCode,
+        success: result.success,
+        responseBody: PromptSanitizer.escapeData(
+          JSON.stringify(HttpResponseUtils.truncateArrays(result.responseData.body, 3, 4) ?? null, null, 2)
+        )
+      })),
+      endpoints: this.catalog.map(endpoint => ({
+        id: endpoint.id,
+        name: endpoint.name,
+        method: endpoint.method,
+        path: endpoint.path,
+        description: endpoint.description,
+        pathParams: this.describeParameters(endpoint.pathParams),
+        queryParams: this.describeParameters(endpoint.queryParams),
+        bodyFields: endpoint.body?.schema ? this.describeParameters(endpoint.body.schema) : '',
+        responseFields: this.describeParameters(endpoint.expectedResponse[0]?.body ?? {})
+      }))
+    });
+  }
+
+  /**
+   * Lists parameter definitions as `path (type, required)` entries, flattening nested objects and arrays
+   * into the JSON paths used by connections.
+   *
+   * @param definitions - The definitions to describe.
+   * @param prefix - (Optional) Path prefix for nested definitions.
+   * @returns A comma-separated description, or an empty string when there are no definitions.
+   * @private
+   */
+  private describeParameters(definitions: Record<string, ParameterDefinition>, prefix: string = ''): string {
+    const entries: string[] = [];
+
+    for (const [key, definition] of Object.entries(definitions)) {
+      const fieldPath = prefix ? `${prefix}.${key}` : key;
+      entries.push(`${fieldPath} (${definition.type}${definition.required ? ', required' : ''})`);
+
+      if (definition.properties) {
+        const nested = this.describeParameters(definition.properties, fieldPath);
+        if (nested) entries.push(nested);
+      }
+      if (definition.items?.properties) {
+        const nested = this.describeParameters(definition.items.properties, `${fieldPath}.0`);
+        if (nested) entries.push(nested);
+      }
+    }
+
+    return entries.join(', ');
+  }
+}
@@ -0,0 +1,189 @@
+import { PromptTemplateRegistry } from "./PromptTemplateRegistry";
+import { ApiExecutionEngine } from "../execution/ApiExecutionEngine";
+import { AiExecutionDetails } from "../models/AiExecutionDetails";
+import { ExecutionResult } from "../models/ExecutionResult";
+import { FlowSummary, FlowSummaryCitation } from "../models/FlowSummary";
+import { LlmResponseFormat } from "../models/LlmResponseFormat";
+import { AiJsonUtils } from "../utils/AiJsonUtils";
+import { HttpResponseUtils } from "../utils/HttpResponseUtils";
+import { PromptSanitizer } from "../utils/PromptSanitizer";
+import { UsageAccounting } from "../utils/UsageAccounting";
+
+/**
+ * Answers the goal of a completed flow in natural language, e.g. "Cart 11 was created with product 21".
+ *
+ * The goal, the executed calls and their truncated responses are sent to the model, which returns an answer and
+ * citations of the response values it relies on. Citations are checked against the results: each resolved citation
+ * carries the actual value, and unresolved ones are listed in `issues`.
+ *
+ * @class FlowSummarizer
+ * @property {ApiExecutionEngine} engine - The engine whose LLM provider writes summaries.
+ * @property {PromptTemplateRegistry} templates - The registry holding the summary prompt.
+ */
+export class FlowSummarizer {
+  /**
+   * The engine whose LLM provider writes summaries; its calls are accounted like the engine's own.
+   * @private
+   */
+  private engine: ApiExecutionEngine;
+
+  /**
+   * The registry holding the summary prompt ('flow-summary-prompt').
+   * @private
+   */
+  private templates: PromptTemplateRegistry;
+
+  /**
+   * Maximum number of array items kept per array in response previews.
+   * @private
+   */
+  private maxArrayLength: number;
+
+  /**
+   * Creates a summarizer.
+   *
+   * @param engine - The engine whose LLM provider writes summaries.
+   * @param options - Optional settings.
+   * @param options.templates - Prompt template registry (default: the engine's templates).
+   * @param options.maxArrayLength - Array items kept per array in the response previews sent to the model (default: 5).
+   */
+  constructor(engine: ApiExecutionEngine, options: { templates?: PromptTemplateRegistry; maxArrayLength?: number } = {}) {
+    this.engine = engine;
+    this.templates = options.templates ?? engine.templates;
+    this.maxArrayLength = options.maxArrayLength ?? 5;
+  }
+
+  /**
+   * Summarizes the results of a flow as an answer to its goal.
+   *
+   * @param goal - The question or goal the flow was run for.
+   * @param results - The results returned by `executeFlow`, in execution order.
+   * @param model - (Optional) Model or deployment to use instead of the one in the engine's LLM settings; the other
+   *   settings (temperature, max tokens, ...) apply either way.
+   * @returns The answer with verified citations, and the summary call with its usage.
+   * @throws {Error} If there are no results, or the engine has no LLM provider.
+   * @throws SyntaxError if the completion is not valid JSON.
+   */
+  public async summarize(goal: string, results: ExecutionResult[], model?: string): Promise<FlowSummary> {
+    if (results.length === 0) {
+      throw new Error('Cannot summarize a flow without results');
+    }
+
+    const ai: AiExecutionDetails = { calls: [], attempts: [], usage: UsageAccounting.summarize([]) };
+    const response = await this.engine.completeMessages(
+      [{ role: 'user', content: this.renderPrompt(goal, results) }],
+      { responseFormat: this.buildResponseFormat(results), purpose: 'summarizer', ai, model }
+    );
+
+    const raw = AiJsonUtils.parse(response.content, this.engine.llm?.supportsStructuredOutput ?? false);
+    const issues: string[] = [];
+    const citations = (Array.isArray(raw?.citations) ? raw.citations : [])
+      .map((citation: any) => this.verifyCitation(
+        { endpointId: String(citation?.endpointId ?? ''), path: String(citation?.path ?? '') },
+        results,
+        issues
+      ));
+
+    if (issues.length > 0) {
+      console.warn(`⚠️ Flow summary has ${issues.length} unresolved citation(s):`, issues);
+    }
+
+    return {
+      goal,
+      answer: typeof raw?.answer === 'string' ? raw.answer.trim() : '',
+      citations,
+      issues,
+      calls: ai.calls,
+      usage: UsageAccounting.summarize(ai.calls)
+    };
+  }
+
+  /**
+   * Looks up the value a citation points at. Citations of endpoints that ran more than once resolve against the
+   * last result, as connections do.
+   *
+   * @param citation - The citation returned by the model.
+   * @param results - The flow results.
+   * @param issues - Receives a description of the problem when the citation does not resolve.
+   * @returns The citation, with the cited value when it resolves.
+   * @private
+   */
+  private verifyCitation(citation: FlowSummaryCitation, results: ExecutionResult[], issues: string[]): FlowSummaryCitation {
+    const result = [...results].reverse().find(candidate => candidate.endpointId === citation.endpointId);
+    if (!result) {
+      issues.push(`Citation refers to unknown endpoint "${citation.endpointId}"`);
+      return citation;
+    }
+
+    let current = result.responseData.body;
+    for (const part of citation.path.split('.').filter(part => part !== '')) {
+      if (current === null || typeof current !== 'object' || !(part in current)) {
+        issues.push(`Citation path "${citation.path}" not found in the response of "${citation.endpointId}"`);
+        return citation;
+      }
+      current = current[part];
+    }
+
+    return { ...citation, value: current };
+  }
+
+  /**
+   * Renders the summary prompt with the goal and a preview of each call.
+   *
+   * @param goal - The goal of the flow.
+   * @param results - The flow results.
+   * @returns The rendered prompt.
+   * @private
+   */
+  private renderPrompt(goal: string, results: ExecutionResult[]): string {
+    return this.templates.render('flow-summary-prompt', {
+      goal,
+      steps: results.map(result => ({
+        endpointId: result.endpointId,
+        method: result.requestData.method,
+        url: result.requestData.url,
+        statusCode: result.statusCode,
+        success: result.success,
+        error: result.error,
+        responseBody: PromptSanitizer.escapeData(
+          JSON.stringify(HttpResponseUtils.truncateArrays(result.responseData.body, this.maxArrayLength, 5) ?? null, null, 2)
+        )
+      }))
+    });
+  }
+
+  /**
+   * Builds the structured output constraint for summaries. Cited endpoint ids are restricted to the results.
+   *
+   * @param results - The flow results.
+   * @returns The response format.
+   * @private
+   */
+  private buildResponseFormat(results: ExecutionResult[]): LlmResponseFormat {
+    return {
+      type: 'json_schema',
+      name: 'flow_summary',
+      schema: {
+        type: 'object',
+        properties: {
+          answer: { type: 'string' },
+          citations: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                endpointId: { type: 'string', enum: [...new Set(results.map(result => result.endpointId))] },
+                path: { type: 'string' }
+              },
+              required: ['endpointId', 'path'],
+              additionalProperties: false
+            }
+          }
+        },
+        required: ['answer', 'citations'],
+        additionalProperties: false
+      },
+      strict: true
+    };
+  }
+}
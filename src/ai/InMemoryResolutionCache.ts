@@ -0,0 +1,95 @@
+import { ResolutionCache } from "./ResolutionCache";
+import { CachedResolution } from "../models/CachedResolution";
+
+/**
+ * Resolution cache held in process memory. Entries are lost when the process exits.
+ *
+ * @class InMemoryResolutionCache
+ * @implements {ResolutionCache}
+ */
+export class InMemoryResolutionCache implements ResolutionCache {
+
+  /**
+   * Time-to-live of new entries in milliseconds; undefined entries never expire.
+   */
+  readonly ttlMs: number | undefined;
+
+  /**
+   * Stored entries by key.
+   * @protected
+   */
+  protected entries: Map<string, CachedResolution> = new Map();
+
+  /**
+   * Creates an in-memory cache.
+   *
+   * @param options - Cache settings.
+   * @param options.ttlMs - (Optional) Time-to-live of entries in milliseconds (default: no expiry).
+   */
+  constructor(options: { ttlMs?: number } = {}) {
+    this.ttlMs = options.ttlMs;
+  }
+
+  /**
+   * Returns the number of stored entries, including expired ones not yet evicted.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<CachedResolution | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt && Date.parse(entry.expiresAt) <= Date.now()) {
+      this.entries.delete(key);
+      this.persist();
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  async set(key: string, entry: Omit<CachedResolution, 'createdAt' | 'expiresAt'>): Promise<void> {
+    const now = Date.now();
+    this.entries.set(key, {
+      ...entry,
+      createdAt: new Date(now).toISOString(),
+      ...(this.ttlMs !== undefined ? { expiresAt: new Date(now + this.ttlMs).toISOString() } : {})
+    });
+    this.persist();
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const deleted = this.entries.delete(key);
+    if (deleted) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  async invalidate(endpointId?: string): Promise<number> {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (endpointId === undefined || entry.endpointId === endpointId) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.persist();
+    }
+    return removed;
+  }
+
+  /**
+   * Called after every change to the stored entries. No-op in memory; overridden by persistent caches.
+   * @protected
+   */
+  protected persist(): void {
+    // Nothing to persist in memory
+  }
+}
@@ -0,0 +1,49 @@
+import { LlmRequest } from '../models/LlmRequest';
+import { LlmResponse } from '../models/LlmResponse';
+
+/**
+ * Interface for chat-completion backends used by the execution engine for AI-powered operations.
+ * Implementations exist for Azure OpenAI, OpenAI-compatible HTTP servers, and scripted in-process responses.
+ */
+export interface LlmProvider {
+  /**
+   * Short identifier of the provider, used in logs and diagnostics.
+   */
+  readonly name: string;
+
+  /**
+   * Whether the provider honours `LlmRequest.responseFormat` (JSON mode / JSON Schema structured output).
+   * When false or omitted, callers must extract JSON from free-form completions themselves.
+   */
+  readonly supportsStructuredOutput?: boolean;
+
+  /**
+   * Whether the provider honours `LlmRequest.tools` and can return `LlmResponse.toolCalls` (function calling).
+   */
+  readonly supportsToolCalls?: boolean;
+
+  /**
+   * Whether the provider honours `LlmRequest.logprobs` and returns `LlmResponse.logprobs`.
+   */
+  readonly supportsLogprobs?: boolean;
+
+  /**
+   * Whether the provider answers identical requests with the same stored completion (e.g. a cassette), so that repeated
+   * samples of one model always agree. Wrappers report it when any provider they wrap does.
+   */
+  readonly replaysCompletions?: boolean;
+
+  /**
+   * The model or deployment used when a request does not name one, if known.
+   * Identifies the model in cache keys and diagnostics.
+   */
+  readonly defaultModel?: string | undefined;
+
+  /**
+   * Sends a chat completion request to the model.
+   *
+   * @param request - The messages and model selection for the completion.
+   * @returns A promise that resolves to the model's completion.
+   */
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
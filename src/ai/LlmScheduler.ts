@@ -0,0 +1,326 @@
+import { BulkheadPolicy, DelegateBackoff, RetryPolicy, bulkhead, handleWhen, retry } from "cockatiel";
+import { LlmProvider } from "./LlmProvider";
+import { LlmRequest } from "../models/LlmRequest";
+import { LlmResponse } from "../models/LlmResponse";
+import { LlmFallback, LlmSchedulerOptions } from "../models/LlmSchedulerOptions";
+import { PromptContextBuilder } from "../utils/PromptContextBuilder";
+
+/**
+ * LLM provider that schedules the calls of everything sharing it (engines, agents, planners, batch runs) onto a
+ * chain of providers, so that large flows stay within provider limits instead of failing with 429s.
+ *
+ * - At most `maxConcurrency` calls are in flight; further calls wait in line.
+ * - Each chain entry has optional requests- and tokens-per-minute budgets over a sliding one-minute window. Tokens
+ *   are estimated from the prompt (plus `maxTokens`) before a call and corrected with the reported usage after it.
+ * - Throttled (429) and failing (408, 409, 5xx, connection and stream errors) calls are retried, waiting as long as
+ *   the provider's `retry-after-ms` or `Retry-After` header asks, else with exponential backoff and jitter.
+ * - When an entry is still throttled or down after its retries, or asks to wait longer than `maxDelayMs`, the call
+ *   moves to the next fallback. Other errors (e.g. 400 or 401) are thrown at once.
+ *
+ * Wrapped providers should not retry on their own: create them with `maxRetries: 0`, or their SDK retries consume
+ * the throttled responses first.
+ *
+ * @class LlmScheduler
+ * @implements {LlmProvider}
+ * @property {string} name - The primary provider's name.
+ */
+export class LlmScheduler implements LlmProvider {
+
+  /**
+   * The primary provider's name, so that cache keys and logs do not change when calls are scheduled.
+   */
+  readonly name: string;
+
+  /**
+   * Whether every provider of the chain honours `responseFormat`; a fallback's completions are parsed the same way.
+   */
+  readonly supportsStructuredOutput: boolean;
+
+  /**
+   * Whether every provider of the chain supports function calling.
+   */
+  readonly supportsToolCalls: boolean;
+
+  /**
+   * Whether every provider of the chain returns token logprobs.
+   */
+  readonly supportsLogprobs: boolean;
+
+  /**
+   * Whether any provider of the chain replays stored completions, so that repeated samples may be identical.
+   */
+  readonly replaysCompletions: boolean;
+
+  /**
+   * The primary provider's default model.
+   */
+  readonly defaultModel: string | undefined;
+
+  /**
+   * The primary provider followed by the fallbacks, in the order they are tried.
+   * @private
+   */
+  private chain: LlmFallback[];
+
+  /**
+   * Start time and tokens of the calls of the last minute, per chain entry.
+   * @private
+   */
+  private windows: Array<Array<{ at: number; tokens: number }>>;
+
+  /**
+   * Limits the calls in flight.
+   * @private
+   */
+  private bulkhead: BulkheadPolicy;
+
+  /**
+   * Retries throttled and failing calls of one chain entry.
+   * @private
+   */
+  private retryPolicy: RetryPolicy;
+
+  /**
+   * Longest delay waited before a retry.
+   * @private
+   */
+  private maxDelayMs: number;
+
+  /**
+   * Creates a scheduler.
+   *
+   * @param primary - The provider used while it is available.
+   * @param options - Concurrency, budgets, retries and fallbacks (see {@link LlmSchedulerOptions}).
+   * @throws {Error} If the concurrency or a request or token budget is below 1, which would never admit a call.
+   */
+  constructor(primary: LlmProvider, options: LlmSchedulerOptions = {}) {
+    const limits: Array<[string, number | undefined]> = [
+      ['maxConcurrency', options.maxConcurrency],
+      ['requestsPerMinute', options.requestsPerMinute],
+      ['tokensPerMinute', options.tokensPerMinute],
+      ...(options.fallbacks ?? []).flatMap((fallback, index): Array<[string, number | undefined]> => [
+        [`fallbacks[${index}].requestsPerMinute`, fallback.requestsPerMinute],
+        [`fallbacks[${index}].tokensPerMinute`, fallback.tokensPerMinute]
+      ])
+    ];
+    for (const [option, value] of limits) {
+      if (value !== undefined && !(value >= 1)) {
+        throw new Error(`LlmScheduler option ${option} must be at least 1 (got ${value}); omit it for no limit`);
+      }
+    }
+
+    this.chain = [
+      {
+        provider: primary,
+        ...(options.requestsPerMinute !== undefined ? { requestsPerMinute: options.requestsPerMinute } : {}),
+        ...(options.tokensPerMinute !== undefined ? { tokensPerMinute: options.tokensPerMinute } : {})
+      },
+      ...(options.fallbacks ?? [])
+    ];
+    this.windows = this.chain.map(() => []);
+    this.name = primary.name;
+    this.defaultModel = primary.defaultModel;
+    this.supportsStructuredOutput = this.chain.every(entry => entry.provider.supportsStructuredOutput ?? false);
+    this.supportsToolCalls = this.chain.every(entry => entry.provider.supportsToolCalls ?? false);
+    this.supportsLogprobs = this.chain.every(entry => entry.provider.supportsLogprobs ?? false);
+    this.replaysCompletions = this.chain.some(entry => entry.provider.replaysCompletions ?? false);
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+
+    const baseDelayMs = options.baseDelayMs ?? 1000;
+    this.bulkhead = bulkhead(options.maxConcurrency ?? 4, Infinity);
+    this.retryPolicy = retry(
+      // A Retry-After beyond the longest delay is better spent on the next entry of the chain
+      handleWhen(error => {
+        const failure = LlmScheduler.classifyError(error);
+        return failure.retryable && (failure.retryAfterMs ?? 0) <= this.maxDelayMs;
+      }),
+      {
+        maxAttempts: options.maxRetries ?? 3,
+        backoff: new DelegateBackoff(context => {
+          const retryAfterMs = 'error' in context.result
+            ? LlmScheduler.classifyError(context.result.error).retryAfterMs
+            : undefined;
+          const exponential = baseDelayMs * 2 ** (context.attempt - 1) * (0.5 + Math.random() / 2);
+          return Math.min(retryAfterMs ?? exponential, this.maxDelayMs);
+        })
+      }
+    );
+    this.retryPolicy.onRetry(({ delay, attempt, ...result }) => {
+      const reason = 'error' in result && result.error instanceof Error ? result.error.message : 'unknown error';
+      console.warn(`⏳ LLM call failed (${reason}); retry ${attempt} in ${Math.round(delay)}ms`);
+    });
+  }
+
+  /**
+   * Sends a completion request through the chain: to the primary provider, then to each fallback in turn while the
+   * previous one is throttled or down.
+   *
+   * @param request - The completion request; fallbacks with a `model` of their own request that model instead.
+   * @returns The first completion obtained; its `model` names the model that produced it.
+   * @throws The error of the last entry tried, or at once any error that retrying or falling back cannot fix.
+   */
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    for (let index = 0; ; index++) {
+      const entry = this.chain[index]!;
+      try {
+        return await this.retryPolicy.execute(() => this.send(index, request));
+      } catch (error) {
+        const failure = LlmScheduler.classifyError(error);
+        const next = this.chain[index + 1];
+        if (!failure.retryable || !next) {
+          throw error;
+        }
+        console.warn(
+          `⚠️ ${this.describe(entry)} is ${failure.throttled ? 'throttled' : 'unavailable'}; falling back to ${this.describe(next)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Tells whether a provider error is worth retrying. Errors are looked up along their `cause` chain, so errors
+   * wrapped by providers (such as stream failures) are recognized.
+   *
+   * @param error - The error thrown by a provider.
+   * @returns Whether retrying (or falling back) may help, whether the provider throttled the call, and the delay it
+   *   asked for.
+   */
+  static classifyError(error: unknown): { retryable: boolean; throttled: boolean; retryAfterMs?: number } {
+    for (let current: any = error, depth = 0; current && depth < 5; current = current.cause, depth++) {
+      const status = typeof current.status === 'number' ? current.status : undefined;
+      // Error events inside a stream carry the error code in the body instead of a status
+      const code = String(current.code ?? current.error?.code ?? '');
+      const retryAfterMs = this.parseRetryAfter(current.headers);
+      const delay = retryAfterMs !== undefined ? { retryAfterMs } : {};
+
+      if (status === 429 || /rate_limit|^429$/.test(code)) {
+        return { retryable: true, throttled: true, ...delay };
+      }
+      if (status !== undefined) {
+        return { retryable: status === 408 || status === 409 || status >= 500, throttled: false, ...delay };
+      }
+      if (
+        /^(APIConnectionError|APIConnectionTimeoutError)$/.test(current.name ?? '') ||
+        /^(ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|EPIPE|UND_ERR_SOCKET|server_error|overloaded)$/.test(code)
+      ) {
+        return { retryable: true, throttled: false };
+      }
+    }
+    return { retryable: false, throttled: false };
+  }
+
+  /**
+   * Sends a request to one entry of the chain once its budgets allow it and a concurrency slot is free. The budget
+   * is waited for first, so that calls waiting for it do not hold slots that calls of other entries could use.
+   *
+   * @param index - The chain entry.
+   * @param request - The completion request.
+   * @returns The completion.
+   * @private
+   */
+  private async send(index: number, request: LlmRequest): Promise<LlmResponse> {
+    const entry = this.chain[index]!;
+    const estimate = PromptContextBuilder.estimateTokens(request.messages.map(message => message.content).join('\n'))
+      + (request.maxTokens ?? 0);
+    const slot = await this.acquire(index, estimate);
+
+    const { model, ...rest } = request;
+    const response = await this.bulkhead.execute(() => {
+      // The call is counted from when it is sent, not from when it was booked, even after a long wait for the slot
+      slot.at = Date.now();
+      const window = this.windows[index]!;
+      if (!window.includes(slot)) {
+        window.push(slot);
+      }
+      return entry.provider.complete(index === 0
+        ? request
+        : { ...rest, ...(entry.model !== undefined ? { model: entry.model } : {}) });
+    });
+
+    if (response.usage) {
+      slot.tokens = response.usage.totalTokens;
+    }
+    return response;
+  }
+
+  /**
+   * Waits until a call fits the budgets of a chain entry, then books it into the entry's window.
+   *
+   * @param index - The chain entry.
+   * @param tokens - The estimated tokens of the call.
+   * @returns The booking, whose token count can be corrected once the usage is known.
+   * @private
+   */
+  private async acquire(index: number, tokens: number): Promise<{ at: number; tokens: number }> {
+    const entry = this.chain[index]!;
+    const window = this.windows[index]!;
+
+    for (;;) {
+      const now = Date.now();
+      // Bookings move to their send time, so the window is not ordered
+      for (let i = window.length - 1; i >= 0; i--) {
+        if (window[i]!.at <= now - 60000) {
+          window.splice(i, 1);
+        }
+      }
+
+      const booked = window.reduce((sum, slot) => sum + slot.tokens, 0);
+      const overRequests = entry.requestsPerMinute !== undefined && window.length >= entry.requestsPerMinute;
+      // A call larger than the whole token budget still runs once the window is empty
+      const overTokens = entry.tokensPerMinute !== undefined && window.length > 0 && booked + tokens > entry.tokensPerMinute;
+      if (!overRequests && !overTokens) {
+        const slot = { at: now, tokens };
+        window.push(slot);
+        return slot;
+      }
+
+      const waitMs = Math.min(...window.map(slot => slot.at)) + 60000 - now;
+      console.log(`⏳ ${this.describe(entry)} is at its per-minute budget; waiting ${waitMs}ms`);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  /**
+   * Reads the delay asked for by a throttled or unavailable provider.
+   *
+   * @param headers - The response headers, as a `Headers` object or a plain record.
+   * @returns The delay in milliseconds, or undefined when the headers ask for none.
+   * @private
+   */
+  private static parseRetryAfter(headers: any): number | undefined {
+    if (!headers) {
+      return undefined;
+    }
+    const get = (name: string): string | undefined =>
+      (typeof headers.get === 'function' ? headers.get(name) : headers[name]) ?? undefined;
+
+    const milliseconds = Number(get('retry-after-ms'));
+    if (get('retry-after-ms') !== undefined && Number.isFinite(milliseconds) && milliseconds >= 0) {
+      return milliseconds;
+    }
+
+    const value = get('retry-after');
+    if (value === undefined) {
+      return undefined;
+    }
+    // Either a number of seconds or an HTTP date
+    const seconds = Number(value);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+  }
+
+  /**
+   * Describes a chain entry for logs.
+   *
+   * @param entry - The chain entry.
+   * @returns The provider name and model.
+   * @private
+   */
+  private describe(entry: LlmFallback): string {
+    const model = entry.model ?? entry.provider.defaultModel;
+    return model ? `${entry.provider.name}/${model}` : entry.provider.name;
+  }
+}
@@ -0,0 +1,128 @@
+import { EmbeddingProvider } from "./EmbeddingProvider";
+
+/**
+ * Deterministic embedding provider that runs in-process, for tests, offline use and small catalogs.
+ *
+ * Texts are split into words (camelCase, snake_case and paths are split too), each word is reduced to a naive stem,
+ * and the stems and their character trigrams are hashed into a fixed number of dimensions (feature hashing).
+ * The vector is L2-normalized. Equal texts always produce equal vectors, and texts sharing words or word parts
+ * score higher; there is no notion of synonyms.
+ *
+ * @class LocalEmbeddingProvider
+ * @implements {EmbeddingProvider}
+ * @property {string} name - Short identifier of the provider.
+ * @property {number} dimensions - Length of the vectors.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+
+  /**
+   * Short identifier of the provider.
+   */
+  readonly name: string = 'local';
+
+  /**
+   * Length of the vectors.
+   */
+  readonly dimensions: number;
+
+  /**
+   * Creates a local provider.
+   *
+   * @param options - Optional settings.
+   * @param options.dimensions - Length of the vectors (default: 512).
+   */
+  constructor(options: { dimensions?: number } = {}) {
+    this.dimensions = options.dimensions ?? 512;
+  }
+
+  /**
+   * Identifies the hashing model; vectors of different dimensions are not comparable.
+   */
+  get model(): string {
+    return `hashing-${this.dimensions}`;
+  }
+
+  /**
+   * Embeds texts by feature hashing.
+   *
+   * @param texts - The texts to embed.
+   * @returns One L2-normalized vector per text.
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  /**
+   * Embeds one text. Whole stems weigh more than their trigrams.
+   *
+   * @param text - The text.
+   * @returns The normalized vector (all zeros for texts without words).
+   * @private
+   */
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const word of this.tokenize(text)) {
+      this.addFeature(vector, `w:${word}`, 2);
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, 1);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  /**
+   * Splits a text into lowercase word stems.
+   *
+   * @param text - The text.
+   * @returns The stems, in order.
+   * @private
+   */
+  private tokenize(text: string): string[] {
+    return text
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 1)
+      .map(word => this.stem(word));
+  }
+
+  /**
+   * Removes common English inflection suffixes, so that 'refunds', 'refunded' and 'refunding' share a stem.
+   *
+   * @param word - A lowercase word.
+   * @returns The stem.
+   * @private
+   */
+  private stem(word: string): string {
+    for (const suffix of ['ing', 'ed', 'es', 's']) {
+      if (word.length > suffix.length + 2 && word.endsWith(suffix)) {
+        return word.slice(0, -suffix.length);
+      }
+    }
+    return word;
+  }
+
+  /**
+   * Adds a hashed feature to a vector, with a hash-derived sign to reduce the bias of collisions.
+   *
+   * @param vector - The vector to update.
+   * @param feature - The feature string.
+   * @param weight - The weight of the feature.
+   * @private
+   */
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    // FNV-1a, 32 bit
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+      hash ^= feature.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+
+    const index = hash % this.dimensions;
+    vector[index] = (vector[index] ?? 0) + ((hash & 0x80000000) !== 0 ? -weight : weight);
+  }
+}
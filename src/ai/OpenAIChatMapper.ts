@@ -0,0 +1,166 @@
+import type { CompletionUsage } from "openai/resources/completions";
+import type {
+  ChatCompletionChunk,
+  ChatCompletionCreateParamsBase,
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+  ChatCompletionTokenLogprob,
+  ChatCompletionTool
+} from "openai/resources/chat/completions/completions";
+import { LlmMessage } from "../models/LlmMessage";
+import { LlmResponseFormat } from "../models/LlmResponseFormat";
+import { LlmToolCall, LlmToolDefinition } from "../models/LlmTool";
+import { LlmUsage } from "../models/LlmUsage";
+import { LlmTokenLogprob } from "../models/LlmTokenLogprob";
+
+/**
+ * Maps provider-neutral LLM request fields to the OpenAI chat completions wire format, and back.
+ * Shared by the Azure OpenAI and OpenAI-compatible providers.
+ *
+ * All methods are static and do not require instantiation.
+ */
+export class OpenAIChatMapper {
+
+  /**
+   * Converts conversation messages to chat completions message params, including tool calls and tool results.
+   *
+   * @param messages - The provider-neutral messages.
+   * @returns The messages in chat completions format.
+   */
+  static toMessages(messages: LlmMessage[]): ChatCompletionMessageParam[] {
+    return messages.map(message => {
+      switch (message.role) {
+        case 'tool':
+          return { role: 'tool', content: message.content, tool_call_id: message.toolCallId ?? '' };
+        case 'assistant':
+          return message.toolCalls && message.toolCalls.length > 0
+            ? {
+              role: 'assistant',
+              content: message.content || null,
+              tool_calls: message.toolCalls.map(call => ({
+                id: call.id,
+                type: 'function' as const,
+                function: { name: call.name, arguments: call.arguments }
+              }))
+            }
+            : { role: 'assistant', content: message.content };
+        default:
+          return { role: message.role, content: message.content };
+      }
+    });
+  }
+
+  /**
+   * Converts tool definitions to the chat completions `tools` parameter.
+   *
+   * @param tools - The tool definitions, if any.
+   * @returns The `tools` value, or undefined when no tools were given.
+   */
+  static toTools(tools: LlmToolDefinition[] | undefined): ChatCompletionTool[] | undefined {
+    if (!tools || tools.length === 0) {
+      return undefined;
+    }
+
+    return tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters
+      }
+    }));
+  }
+
+  /**
+   * Converts tool calls of a non-streamed completion message to provider-neutral tool calls.
+   *
+   * @param toolCalls - The `tool_calls` of the completion message, if any.
+   * @returns The tool calls, or undefined when the model requested none.
+   */
+  static fromToolCalls(toolCalls: ChatCompletionMessageToolCall[] | undefined): LlmToolCall[] | undefined {
+    if (!toolCalls || toolCalls.length === 0) {
+      return undefined;
+    }
+
+    return toolCalls
+      .filter(call => call.type === 'function')
+      .map(call => ({
+        id: call.id,
+        name: call.type === 'function' ? call.function.name : '',
+        arguments: call.type === 'function' ? call.function.arguments : ''
+      }));
+  }
+
+  /**
+   * Accumulates streamed tool call fragments into complete tool calls.
+   * Fragments of the same call share an `index`; the id and name arrive first and the arguments in pieces.
+   *
+   * @param calls - The tool calls accumulated so far, indexed by stream index.
+   * @param deltas - The `delta.tool_calls` of a streamed chunk, if any.
+   */
+  static accumulateToolCallDeltas(
+    calls: LlmToolCall[],
+    deltas: ChatCompletionChunk.Choice.Delta.ToolCall[] | undefined
+  ): void {
+    for (const delta of deltas ?? []) {
+      const call = calls[delta.index] ?? { id: '', name: '', arguments: '' };
+      call.id = delta.id ?? call.id;
+      call.name += delta.function?.name ?? '';
+      call.arguments += delta.function?.arguments ?? '';
+      calls[delta.index] = call;
+    }
+  }
+
+  /**
+   * Converts a response format to the chat completions `response_format` parameter.
+   *
+   * @param format - The requested response format, if any.
+   * @returns The `response_format` value, or undefined when no format was requested.
+   */
+  static toResponseFormat(format: LlmResponseFormat | undefined): ChatCompletionCreateParamsBase['response_format'] {
+    if (!format) {
+      return undefined;
+    }
+
+    if (format.type === 'json_object') {
+      return { type: 'json_object' };
+    }
+
+    return {
+      type: 'json_schema',
+      json_schema: {
+        name: format.name,
+        schema: format.schema,
+        strict: format.strict ?? false
+      }
+    };
+  }
+
+  /**
+   * Converts the `usage` of a completion (or of the final streamed chunk) to provider-neutral token usage.
+   *
+   * @param usage - The reported usage, if any.
+   * @returns The token usage, or undefined when the server did not report it.
+   */
+  static fromUsage(usage: CompletionUsage | null | undefined): LlmUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens
+    };
+  }
+
+  /**
+   * Converts the content logprobs of a completion choice (or of a streamed chunk) to token logprobs.
+   *
+   * @param logprobs - The `logprobs.content` of the choice, if any.
+   * @returns The token logprobs, or an empty array when none were returned.
+   */
+  static fromLogprobs(logprobs: ChatCompletionTokenLogprob[] | null | undefined): LlmTokenLogprob[] {
+    return (logprobs ?? []).map(entry => ({ token: entry.token, logprob: entry.logprob }));
+  }
+}
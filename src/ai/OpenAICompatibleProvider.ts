@@ -0,0 +1,153 @@
+import OpenAI from "openai";
+import { LlmProvider } from "./LlmProvider";
+import { OpenAIChatMapper } from "./OpenAIChatMapper";
+import { LlmRequest } from "../models/LlmRequest";
+import { LlmResponse } from "../models/LlmResponse";
+import { LlmSettings } from "../models/LlmSettings";
+
+/**
+ * LLM provider for servers exposing the OpenAI chat completions API (vLLM, Ollama, LM Studio, OpenAI itself).
+ *
+ * @class OpenAICompatibleProvider
+ * @implements {LlmProvider}
+ * @property {string} name - Short identifier of the provider.
+ * @property {boolean} supportsStructuredOutput - Whether the server honours `response_format`.
+ * @property {boolean} supportsToolCalls - Whether the server supports function calling.
+ * @property {boolean} supportsLogprobs - Whether the server returns token logprobs.
+ * @property {string} model - The default model used when a request does not specify one.
+ * @property {LlmSettings} settings - Default temperature, max tokens and timeout of requests.
+ * @property {OpenAI} client - The OpenAI client instance pointed at the configured base URL.
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+
+  /**
+   * Short identifier of the provider.
+   */
+  readonly name: string;
+
+  /**
+   * Whether the server honours `response_format` (vLLM, recent Ollama and LM Studio builds do).
+   */
+  readonly supportsStructuredOutput: boolean;
+
+  /**
+   * Whether the server supports function calling (`tools` / `tool_calls`).
+   */
+  readonly supportsToolCalls: boolean;
+
+  /**
+   * Whether the server returns token logprobs (OpenAI and vLLM do; support varies across other servers).
+   */
+  readonly supportsLogprobs: boolean;
+
+  /**
+   * The default model used when a request does not specify one.
+   */
+  model: string;
+
+  /**
+   * Default temperature, max tokens and timeout of requests. Requests may override each of them.
+   */
+  settings: LlmSettings;
+
+  /**
+   * The OpenAI client instance pointed at the configured base URL.
+   */
+  client: OpenAI;
+
+  /**
+   * Creates a provider for an OpenAI-compatible endpoint.
+   *
+   * @param options - Connection settings.
+   * @param options.baseUrl - Base URL of the API, including the version segment (e.g. "http://localhost:11434/v1").
+   * @param options.model - Default model name served by the endpoint.
+   * @param options.apiKey - (Optional) API key; local servers usually accept any value (default: "not-needed").
+   * @param options.name - (Optional) Provider name for logs (default: "openai-compatible").
+   * @param options.structuredOutput - (Optional) Whether the server supports `response_format` (default: true).
+   * @param options.toolCalls - (Optional) Whether the server supports function calling (default: true).
+   * @param options.logprobs - (Optional) Whether the server returns token logprobs (default: false).
+   * @param options.temperature - (Optional) Default sampling temperature (default: server default).
+   * @param options.maxTokens - (Optional) Default maximum completion tokens (default: server default).
+   * @param options.timeout - (Optional) Default request timeout in milliseconds (default: the SDK's 10 minutes).
+   * @param options.maxRetries - (Optional) Retries of failed requests by the SDK (default: the SDK's 2). Set to 0 when
+   *   calls are scheduled by an {@link LlmScheduler}, which retries on its own.
+   */
+  constructor(options: {
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    name?: string;
+    structuredOutput?: boolean;
+    toolCalls?: boolean;
+    logprobs?: boolean;
+    temperature?: number;
+    maxTokens?: number;
+    timeout?: number;
+    maxRetries?: number;
+  }) {
+    this.name = options.name ?? 'openai-compatible';
+    this.supportsStructuredOutput = options.structuredOutput ?? true;
+    this.supportsToolCalls = options.toolCalls ?? true;
+    this.supportsLogprobs = options.logprobs ?? false;
+    this.model = options.model;
+    this.settings = {
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+      ...(options.maxTokens !== undefined ? { maxTokens: options.maxTokens } : {}),
+      ...(options.timeout !== undefined ? { timeout: options.timeout } : {})
+    };
+    this.client = new OpenAI({
+      baseURL: options.baseUrl,
+      apiKey: options.apiKey ?? 'not-needed',
+      ...(options.timeout !== undefined ? { timeout: options.timeout } : {}),
+      ...(options.maxRetries !== undefined ? { maxRetries: options.maxRetries } : {})
+    });
+  }
+
+  /**
+   * The model used when a request does not name one.
+   */
+  get defaultModel(): string {
+    return this.model;
+  }
+
+  /**
+   * Sends a chat completion request to the configured endpoint.
+   *
+   * Temperature, max tokens and timeout of the request override the provider defaults; the API version is ignored.
+   *
+   * @param request - The messages and optional model to use (default: the provider's model).
+   * @returns The completion text, any requested tool calls, the token usage, the token logprobs when requested, and the model that produced it.
+   * @throws {Error} If the HTTP request fails or the server returns an error.
+   */
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const model = request.model ?? this.model;
+    const temperature = request.temperature ?? this.settings.temperature;
+    const maxTokens = request.maxTokens ?? this.settings.maxTokens;
+    const responseFormat = this.supportsStructuredOutput
+      ? OpenAIChatMapper.toResponseFormat(request.responseFormat)
+      : undefined;
+    const tools = this.supportsToolCalls ? OpenAIChatMapper.toTools(request.tools) : undefined;
+    const completion = await this.client.chat.completions.create({
+      messages: OpenAIChatMapper.toMessages(request.messages),
+      model,
+      ...(temperature !== undefined ? { temperature } : {}),
+      ...(maxTokens !== undefined ? { max_tokens: maxTokens } : {}),
+      ...(this.supportsLogprobs && request.logprobs ? { logprobs: true } : {}),
+      ...(responseFormat ? { response_format: responseFormat } : {}),
+      ...(tools ? { tools } : {})
+    }, request.timeout !== undefined ? { timeout: request.timeout } : undefined);
+
+    const message = completion.choices[0]?.message;
+    const toolCalls = OpenAIChatMapper.fromToolCalls(message?.tool_calls);
+    const usage = OpenAIChatMapper.fromUsage(completion.usage);
+    const logprobs = OpenAIChatMapper.fromLogprobs(completion.choices[0]?.logprobs?.content);
+
+    return {
+      content: message?.content ?? '',
+      model: completion.model || model,
+      ...(toolCalls ? { toolCalls } : {}),
+      ...(usage ? { usage } : {}),
+      ...(logprobs.length > 0 ? { logprobs } : {})
+    };
+  }
+}
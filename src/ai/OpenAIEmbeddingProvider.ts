@@ -0,0 +1,100 @@
+import OpenAI from "openai";
+import { EmbeddingProvider } from "./EmbeddingProvider";
+
+/**
+ * Embedding provider for servers exposing the OpenAI embeddings API (OpenAI, Azure OpenAI, vLLM, Ollama, LM Studio).
+ *
+ * @class OpenAIEmbeddingProvider
+ * @implements {EmbeddingProvider}
+ * @property {string} name - Short identifier of the provider.
+ * @property {string} model - The embedding model or Azure deployment.
+ * @property {OpenAI} client - The OpenAI client used for requests.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+
+  /**
+   * Short identifier of the provider.
+   */
+  readonly name: string;
+
+  /**
+   * The embedding model (or Azure OpenAI deployment) used for all requests.
+   */
+  readonly model: string;
+
+  /**
+   * The OpenAI client used for requests.
+   */
+  client: OpenAI;
+
+  /**
+   * Maximum number of texts sent in one request.
+   * @private
+   */
+  private batchSize: number;
+
+  /**
+   * Reduced vector length requested from models that support it, if any.
+   * @private
+   */
+  private dimensions: number | undefined;
+
+  /**
+   * Creates a provider for an OpenAI-compatible embeddings endpoint.
+   *
+   * @param options - Connection settings.
+   * @param options.model - Embedding model, or deployment name for Azure OpenAI (default: "text-embedding-3-small").
+   * @param options.client - (Optional) Existing client to use, e.g. `AOAI.client` for Azure OpenAI; `baseUrl` and
+   *   `apiKey` are ignored when given.
+   * @param options.baseUrl - (Optional) Base URL of the API, including the version segment (default: the OpenAI API).
+   * @param options.apiKey - (Optional) API key (default: environment variable 'OPENAI_API_KEY', then "not-needed").
+   * @param options.name - (Optional) Provider name for logs (default: "openai-embeddings").
+   * @param options.dimensions - (Optional) Reduced vector length, for models that support it.
+   * @param options.batchSize - (Optional) Maximum number of texts per request (default: 100).
+   */
+  constructor(options: {
+    model?: string;
+    client?: OpenAI;
+    baseUrl?: string;
+    apiKey?: string;
+    name?: string;
+    dimensions?: number;
+    batchSize?: number;
+  } = {}) {
+    this.name = options.name ?? 'openai-embeddings';
+    this.model = options.model ?? 'text-embedding-3-small';
+    this.dimensions = options.dimensions;
+    this.batchSize = options.batchSize ?? 100;
+    this.client = options.client ?? new OpenAI({
+      ...(options.baseUrl !== undefined ? { baseURL: options.baseUrl } : {}),
+      apiKey: options.apiKey ?? process.env['OPENAI_API_KEY'] ?? 'not-needed'
+    });
+  }
+
+  /**
+   * Embeds texts in batches of `batchSize`.
+   *
+   * @param texts - The texts to embed.
+   * @returns One vector per text, in input order.
+   * @throws {Error} If a request fails or the server returns a different number of vectors.
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += this.batchSize) {
+      const batch = texts.slice(start, start + this.batchSize);
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: batch,
+        ...(this.dimensions !== undefined ? { dimensions: this.dimensions } : {})
+      });
+
+      if (response.data.length !== batch.length) {
+        throw new Error(`Embedding provider '${this.name}' returned ${response.data.length} vectors for ${batch.length} texts`);
+      }
+      vectors.push(...[...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding));
+    }
+
+    return vectors;
+  }
+}
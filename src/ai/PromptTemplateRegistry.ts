@@ -0,0 +1,184 @@
+import Handlebars from 'handlebars';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Registry of compiled Handlebars prompt templates.
+ *
+ * Templates are compiled once when registered and rendered from memory afterwards. Each registry has its own
+ * Handlebars environment, so custom helpers and partials registered on it do not leak into other registries.
+ * The built-in templates (`src/prompt-templates/*.hbs`) are registered under their file name without the
+ * extension, e.g. `path-parameters-prompt`; registering a template under the same name replaces the built-in one.
+ *
+ * @class PromptTemplateRegistry
+ */
+export class PromptTemplateRegistry {
+
+  /**
+   * Directory holding the built-in templates.
+   */
+  static readonly DEFAULT_DIRECTORY = path.join(__dirname, '..', 'prompt-templates');
+
+  /**
+   * Registry shared by components created without one of their own.
+   * @private
+   */
+  private static shared: PromptTemplateRegistry | undefined;
+
+  /**
+   * Isolated Handlebars environment holding this registry's helpers and partials.
+   * @private
+   */
+  private handlebars: typeof Handlebars;
+
+  /**
+   * Compiled templates by name.
+   * @private
+   */
+  private templates: Map<string, HandlebarsTemplateDelegate> = new Map();
+
+  /**
+   * Creates a registry and loads the templates of a directory.
+   *
+   * @param options - Registry settings.
+   * @param options.directory - (Optional) Directory of `.hbs` templates to load (default: the built-in templates).
+   *   Pass `null` to start empty.
+   * @param options.helpers - (Optional) Handlebars helpers to register.
+   * @param options.partials - (Optional) Handlebars partials to register, as template sources by name.
+   */
+  constructor(options: {
+    directory?: string | null;
+    helpers?: Record<string, Handlebars.HelperDelegate>;
+    partials?: Record<string, string>;
+  } = {}) {
+    this.handlebars = Handlebars.create();
+
+    for (const [name, helper] of Object.entries(options.helpers ?? {})) {
+      this.registerHelper(name, helper);
+    }
+    for (const [name, source] of Object.entries(options.partials ?? {})) {
+      this.registerPartial(name, source);
+    }
+
+    const directory = options.directory === undefined ? PromptTemplateRegistry.DEFAULT_DIRECTORY : options.directory;
+    if (directory !== null) {
+      this.loadDirectory(directory);
+    }
+  }
+
+  /**
+   * Returns the registry shared by engines, agents and planners created without one. It holds the built-in
+   * templates; helpers, partials and templates registered on it apply to all of them.
+   */
+  static get default(): PromptTemplateRegistry {
+    this.shared ??= new PromptTemplateRegistry();
+    return this.shared;
+  }
+
+  /**
+   * Returns the names of the registered templates.
+   */
+  get names(): string[] {
+    return [...this.templates.keys()];
+  }
+
+  /**
+   * Registers every `.hbs` file of a directory under its file name without the extension.
+   *
+   * @param directory - The directory to load.
+   * @returns The number of templates loaded.
+   * @throws {Error} If the directory cannot be read or a template does not compile.
+   */
+  loadDirectory(directory: string): number {
+    const files = fs.readdirSync(directory).filter(file => file.endsWith('.hbs'));
+
+    for (const file of files) {
+      this.registerFile(path.basename(file, '.hbs'), path.join(directory, file));
+    }
+
+    return files.length;
+  }
+
+  /**
+   * Compiles and registers a template, replacing any template of the same name.
+   *
+   * @param name - The template name.
+   * @param source - The Handlebars source.
+   * @returns The registry, for chaining.
+   * @throws {Error} If the source does not compile.
+   */
+  register(name: string, source: string): this {
+    try {
+      // Parse up front so syntax errors surface at registration instead of at the first render
+      this.handlebars.parse(source);
+    } catch (error) {
+      throw new Error(`Invalid prompt template '${name}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    this.templates.set(name, this.handlebars.compile(source));
+    return this;
+  }
+
+  /**
+   * Reads, compiles and registers a template file.
+   *
+   * @param name - The template name.
+   * @param filePath - Path of the `.hbs` file.
+   * @returns The registry, for chaining.
+   * @throws {Error} If the file cannot be read or does not compile.
+   */
+  registerFile(name: string, filePath: string): this {
+    return this.register(name, fs.readFileSync(filePath, 'utf8'));
+  }
+
+  /**
+   * Registers a Handlebars helper available to every template of this registry.
+   *
+   * @param name - The helper name.
+   * @param helper - The helper function.
+   * @returns The registry, for chaining.
+   */
+  registerHelper(name: string, helper: Handlebars.HelperDelegate): this {
+    this.handlebars.registerHelper(name, helper);
+    return this;
+  }
+
+  /**
+   * Registers a Handlebars partial available to every template of this registry as `{{> name}}`.
+   *
+   * @param name - The partial name.
+   * @param source - The partial's Handlebars source.
+   * @returns The registry, for chaining.
+   */
+  registerPartial(name: string, source: string): this {
+    this.handlebars.registerPartial(name, source);
+    return this;
+  }
+
+  /**
+   * Checks whether a template is registered.
+   *
+   * @param name - The template name.
+   * @returns True if a template of that name is registered.
+   */
+  has(name: string): boolean {
+    return this.templates.has(name);
+  }
+
+  /**
+   * Renders a registered template.
+   *
+   * @param name - The template name.
+   * @param context - The template variables.
+   * @returns The rendered text.
+   * @throws {Error} If no template of that name is registered.
+   */
+  render(name: string, context: object): string {
+    const template = this.templates.get(name);
+    if (!template) {
+      throw new Error(`Prompt template '${name}' is not registered (available: ${this.names.join(', ')})`);
+    }
+
+    return template(context);
+  }
+}
@@ -0,0 +1,41 @@
+import { CachedResolution } from "../models/CachedResolution";
+
+/**
+ * Storage for AI parameter resolutions, so identical questions are not sent to the model twice.
+ *
+ * Keys are computed by the execution engine from the endpoint schema, the natural language input,
+ * the rendered connection data and the model id; a cache only stores and expires entries.
+ */
+export interface ResolutionCache {
+  /**
+   * Looks up a resolution. Expired entries are treated as missing.
+   *
+   * @param key - The resolution key.
+   * @returns The cached entry, or undefined on a miss.
+   */
+  get(key: string): Promise<CachedResolution | undefined>;
+
+  /**
+   * Stores a resolution. The cache sets `createdAt` and, if it has a TTL, `expiresAt`.
+   *
+   * @param key - The resolution key.
+   * @param entry - The entry to store.
+   */
+  set(key: string, entry: Omit<CachedResolution, 'createdAt' | 'expiresAt'>): Promise<void>;
+
+  /**
+   * Removes a single entry.
+   *
+   * @param key - The resolution key.
+   * @returns Whether an entry was removed.
+   */
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Removes all entries of an endpoint, or every entry when no endpoint is given.
+   *
+   * @param endpointId - (Optional) The endpoint whose entries should be removed.
+   * @returns The number of removed entries.
+   */
+  invalidate(endpointId?: string): Promise<number>;
+}
@@ -0,0 +1,114 @@
+import { LlmProvider } from "./LlmProvider";
+import { LlmRequest } from "../models/LlmRequest";
+import { LlmResponse } from "../models/LlmResponse";
+
+/**
+ * A scripted reply: a fixed completion string, a full response, or a function computing either from the request.
+ */
+export type ScriptedReply =
+  | string
+  | LlmResponse
+  | ((request: LlmRequest) => string | LlmResponse | Promise<string | LlmResponse>);
+
+/**
+ * In-process LLM provider that answers from a predefined script instead of calling a model.
+ * Useful for unit-testing the execution engine without network access or credentials.
+ *
+ * Replies are consumed in order. Once the script is exhausted, the optional fallback reply is used;
+ * without one, an error is thrown so unexpected model calls surface immediately.
+ *
+ * @class ScriptedLlmProvider
+ * @implements {LlmProvider}
+ */
+export class ScriptedLlmProvider implements LlmProvider {
+
+  /**
+   * Short identifier of the provider.
+   */
+  readonly name: string = 'scripted';
+
+  /**
+   * Whether callers should treat scripted replies as schema-conforming JSON.
+   * Defaults to false so scripted replies go through the same JSON cleanup as free-form completions.
+   */
+  supportsStructuredOutput: boolean = false;
+
+  /**
+   * Scripted replies may carry `toolCalls`, so agent loops can be exercised offline.
+   */
+  supportsToolCalls: boolean = true;
+
+  /**
+   * Scripted replies may carry `logprobs`, so confidence scoring can be exercised offline.
+   */
+  supportsLogprobs: boolean = true;
+
+  /**
+   * Every request received, in order, for assertions.
+   */
+  readonly requests: LlmRequest[] = [];
+
+  /**
+   * Remaining scripted replies.
+   * @private
+   */
+  private replies: ScriptedReply[];
+
+  /**
+   * Reply used once the script is exhausted.
+   * @private
+   */
+  private fallback: ScriptedReply | undefined;
+
+  /**
+   * Creates a scripted provider.
+   *
+   * @param replies - Replies returned for successive requests.
+   * @param fallback - (Optional) Reply used for every request after the script is exhausted.
+   */
+  constructor(replies: ScriptedReply[] = [], fallback?: ScriptedReply) {
+    this.replies = [...replies];
+    this.fallback = fallback;
+  }
+
+  /**
+   * Appends replies to the end of the script.
+   *
+   * @param replies - The replies to enqueue.
+   * @returns The provider instance for chaining.
+   */
+  enqueue(...replies: ScriptedReply[]): ScriptedLlmProvider {
+    this.replies.push(...replies);
+    return this;
+  }
+
+  /**
+   * Returns the number of scripted replies not yet consumed.
+   */
+  get remaining(): number {
+    return this.replies.length;
+  }
+
+  /**
+   * Records the request and returns the next scripted reply.
+   *
+   * @param request - The completion request.
+   * @returns The scripted completion.
+   * @throws {Error} If the script is exhausted and no fallback reply is configured.
+   */
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    this.requests.push(request);
+
+    const reply = this.replies.length > 0 ? this.replies.shift() : this.fallback;
+    if (reply === undefined) {
+      throw new Error(`ScriptedLlmProvider has no reply left for request #${this.requests.length}`);
+    }
+
+    const resolved = typeof reply === 'function' ? await reply(request) : reply;
+    const model = request.model ?? 'scripted';
+
+    return typeof resolved === 'string'
+      ? { content: resolved, model }
+      : resolved;
+  }
+}
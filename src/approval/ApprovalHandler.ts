@@ -0,0 +1,16 @@
+import { ApprovalRequest } from '../models/ApprovalRequest';
+import { ApprovalDecision } from '../models/ApprovalDecision';
+
+/**
+ * Interface for approval handlers that review low-confidence AI-resolved requests before they are sent.
+ * Implement it to plug in a CLI prompt, a review UI, a chat-ops message or an automated policy.
+ */
+export interface ApprovalHandler {
+  /**
+   * Reviews a request held at the approval gate. The endpoint execution waits for the returned promise.
+   *
+   * @param request - The endpoint, resolved values and confidence scores awaiting review.
+   * @returns A promise that resolves to the decision: approve, approve with corrected values, or reject.
+   */
+  approve(request: ApprovalRequest): Promise<ApprovalDecision>;
+}
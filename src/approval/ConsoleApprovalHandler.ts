@@ -0,0 +1,82 @@
+import readline from 'readline/promises';
+import { ApprovalHandler } from './ApprovalHandler';
+import { ApprovalRequest } from '../models/ApprovalRequest';
+import { ApprovalDecision } from '../models/ApprovalDecision';
+
+/**
+ * ConsoleApprovalHandler - Asks for approval on the terminal, showing the request and the confidence of every
+ * resolved field, and waits for a yes/no answer.
+ *
+ * @implements {ApprovalHandler}
+ */
+export class ConsoleApprovalHandler implements ApprovalHandler {
+  /**
+   * Stream the answer is read from.
+   * @private
+   */
+  private input: NodeJS.ReadableStream;
+
+  /**
+   * Stream the request and question are written to.
+   * @private
+   */
+  private output: NodeJS.WritableStream;
+
+  /**
+   * Creates a console approval handler.
+   *
+   * @param options - Optional streams (default: process.stdin and process.stdout).
+   * @param options.input - Stream the answer is read from.
+   * @param options.output - Stream the request and question are written to.
+   */
+  constructor(options: { input?: NodeJS.ReadableStream; output?: NodeJS.WritableStream } = {}) {
+    this.input = options.input ?? process.stdin;
+    this.output = options.output ?? process.stdout;
+  }
+
+  /**
+   * Prints the request and asks whether to send it. Only 'y' or 'yes' approves.
+   *
+   * @param {ApprovalRequest} request - The request awaiting review.
+   * @returns {Promise<ApprovalDecision>} Approved on 'y'/'yes', rejected otherwise.
+   */
+  async approve(request: ApprovalRequest): Promise<ApprovalDecision> {
+    this.output.write(`\n⏸️  Approval required for ${request.endpointName} (${request.endpointId})\n`);
+    this.output.write(`   ${request.method} ${request.url}\n`);
+
+    for (const [field, confidence] of Object.entries(request.confidence)) {
+      const marker = request.lowConfidenceFields.includes(field) ? '⚠️ ' : '   ';
+      const value = JSON.stringify(this.getFieldValue(request, field));
+      this.output.write(`${marker}${field} = ${value} (confidence ${confidence.score.toFixed(2)})\n`);
+    }
+
+    const rl = readline.createInterface({ input: this.input, output: this.output });
+    try {
+      const answer = (await rl.question(`Send this request? (threshold ${request.threshold}) [y/N] `)).trim().toLowerCase();
+      return answer === 'y' || answer === 'yes'
+        ? { approved: true }
+        : { approved: false, reason: 'Rejected at the console' };
+    } finally {
+      rl.close();
+    }
+  }
+
+  /**
+   * Looks up the resolved value of a field key such as 'path.id' or 'body.title'.
+   *
+   * @param request - The request awaiting review.
+   * @param field - The field key.
+   * @returns The resolved value, or undefined if not present.
+   * @private
+   */
+  private getFieldValue(request: ApprovalRequest, field: string): any {
+    const [section, ...rest] = field.split('.');
+    const name = rest.join('.');
+    switch (section) {
+      case 'path': return request.resolution.pathParams?.[name];
+      case 'query': return request.resolution.queryParams?.[name];
+      case 'body': return request.resolution.body?.[name];
+      default: return undefined;
+    }
+  }
+}
@@ -0,0 +1,262 @@
+import { ApiExecutionEngine } from "./ApiExecutionEngine";
+import { EndpointToolBuilder } from "../ai/EndpointToolBuilder";
+import { ApiEndpoint } from "../models/ApiEndpoint";
+import { AgentRunResult, AgentStep } from "../models/AgentRunResult";
+import { AiExecutionDetails } from "../models/AiExecutionDetails";
+import { ExecutionOptions } from "../models/ExecutionOptions";
+import { ExecutionResult } from "../models/ExecutionResult";
+import { LlmMessage } from "../models/LlmMessage";
+import { LlmToolCall, LlmToolDefinition } from "../models/LlmTool";
+import { ParameterDefinition } from "../models/ParameterDefinition";
+import { HttpResponseUtils } from "../utils/HttpResponseUtils";
+import { SchemaValidation } from "../utils/SchemaValidation";
+import { UsageAccounting } from "../utils/UsageAccounting";
+
+/**
+ * Function-calling agent that exposes a catalog of {@link ApiEndpoint}s as LLM tools and lets the model
+ * decide which endpoints to call, and in what order, to satisfy a natural-language goal.
+ *
+ * Every tool call is executed through {@link ApiExecutionEngine.executeEndpoint}, so authentication,
+ * validation and the shared {@link ExecutionContext} behave exactly as in a hand-built flow. The agent's own model
+ * calls go through {@link ApiExecutionEngine.completeMessages}, so they are priced like the engine's.
+ *
+ * @class ApiAgent
+ * @property {ApiExecutionEngine} engine - The engine used to execute endpoints; its LLM provider drives the agent.
+ * @property {ApiEndpoint[]} endpoints - The endpoint catalog exposed as tools.
+ */
+export class ApiAgent {
+  /**
+   * The engine used to execute endpoints; its LLM provider drives the agent.
+   * @private
+   */
+  private engine: ApiExecutionEngine;
+
+  /**
+   * The endpoint catalog exposed as tools.
+   * @private
+   */
+  private endpoints: ApiEndpoint[];
+
+  /**
+   * Maximum number of model turns before the run is stopped.
+   * @private
+   */
+  private maxSteps: number;
+
+  /**
+   * Options passed to every endpoint execution.
+   * @private
+   */
+  private executionOptions: ExecutionOptions;
+
+  /**
+   * Creates an agent over an endpoint catalog.
+   *
+   * @param engine - The execution engine; must use an LLM provider with tool call support.
+   * @param endpoints - The endpoints the model may call.
+   * @param options - Optional settings.
+   * @param options.maxSteps - Maximum number of model turns (default: 10).
+   * @param options.executionOptions - Options passed to every endpoint execution (default: {}).
+   */
+  constructor(
+    engine: ApiExecutionEngine,
+    endpoints: ApiEndpoint[],
+    options: { maxSteps?: number; executionOptions?: ExecutionOptions } = {}
+  ) {
+    this.engine = engine;
+    this.endpoints = endpoints;
+    this.maxSteps = options.maxSteps ?? 10;
+    this.executionOptions = options.executionOptions ?? {};
+  }
+
+  /**
+   * Runs the agent loop until the model gives a final answer or the step limit is reached.
+   *
+   * @param goal - The natural-language goal to satisfy.
+   * @returns The final answer together with every tool call and execution result, and the model usage of the run.
+   * @throws {Error} If the engine has no LLM provider, or its provider does not support tool calls.
+   */
+  public async run(goal: string): Promise<AgentRunResult> {
+    const llm = this.engine.llm;
+    if (!llm) {
+      throw new Error('Agent mode requires an LLM provider');
+    }
+    if (!llm.supportsToolCalls) {
+      throw new Error(`LLM provider '${llm.name}' does not support tool calls required by agent mode`);
+    }
+
+    const { tools, endpointsByTool } = EndpointToolBuilder.buildTools(this.endpoints);
+    const messages: LlmMessage[] = [
+      { role: 'system', content: this.renderSystemPrompt(goal, tools) },
+      { role: 'user', content: goal }
+    ];
+    const steps: AgentStep[] = [];
+    const results: ExecutionResult[] = [];
+    const ai: AiExecutionDetails = { calls: [], attempts: [], usage: UsageAccounting.summarize([]) };
+    const finish = (answer: string, completed: boolean): AgentRunResult => ({
+      goal,
+      answer,
+      completed,
+      steps,
+      results,
+      calls: ai.calls,
+      usage: UsageAccounting.summarize([...ai.calls, ...results.flatMap(result => result.ai?.calls ?? [])])
+    });
+
+    for (let turn = 0; turn < this.maxSteps; turn++) {
+      const response = await this.engine.completeMessages(messages, { tools, purpose: 'agent', ai });
+
+      if (!response.toolCalls || response.toolCalls.length === 0) {
+        return finish(response.content.trim(), true);
+      }
+
+      messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+
+      for (const toolCall of response.toolCalls) {
+        const step = await this.executeToolCall(toolCall, endpointsByTool);
+        steps.push(step);
+        if (step.result) {
+          results.push(step.result);
+        }
+
+        messages.push({
+          role: 'tool',
+          toolCallId: toolCall.id,
+          content: this.formatToolResult(step)
+        });
+      }
+    }
+
+    console.warn(`⚠️ Agent stopped after ${this.maxSteps} steps without a final answer`);
+    return finish('', false);
+  }
+
+  /**
+   * Validates the arguments of a tool call and executes the matching endpoint.
+   *
+   * @param toolCall - The tool call requested by the model.
+   * @param endpointsByTool - Lookup from tool name to endpoint.
+   * @returns The recorded step, with either a result or an error.
+   * @private
+   */
+  private async executeToolCall(toolCall: LlmToolCall, endpointsByTool: Map<string, ApiEndpoint>): Promise<AgentStep> {
+    const endpoint = endpointsByTool.get(toolCall.name);
+    let args: Record<string, any>;
+
+    try {
+      args = toolCall.arguments ? JSON.parse(toolCall.arguments) : {};
+    } catch (error: any) {
+      return { toolCallId: toolCall.id, toolName: toolCall.name, arguments: {}, error: `Arguments are not valid JSON: ${error.message}` };
+    }
+
+    if (!endpoint) {
+      return { toolCallId: toolCall.id, toolName: toolCall.name, arguments: args, error: `Unknown tool '${toolCall.name}'` };
+    }
+
+    const step: AgentStep = { toolCallId: toolCall.id, toolName: toolCall.name, endpointId: endpoint.id, arguments: args };
+
+    const errors = [
+      ...this.validateSection(args['path'] ?? {}, endpoint.pathParams, 'path'),
+      ...this.validateSection(args['query'] ?? {}, endpoint.queryParams, 'query'),
+      ...(endpoint.body?.schema && endpoint.method !== 'GET'
+        ? this.validateSection(args['body'] ?? {}, endpoint.body.schema, 'body')
+        : [])
+    ];
+
+    if (errors.length > 0) {
+      step.error = `Invalid arguments:\n${errors.map(error => `  - ${error}`).join('\n')}`;
+      return step;
+    }
+
+    console.log(`🤖 Agent calling ${endpoint.name}`, args);
+    step.result = await this.engine.executeEndpoint(this.bindArguments(endpoint, args), this.executionOptions);
+    return step;
+  }
+
+  /**
+   * Creates a copy of the endpoint with the tool arguments bound as resolved values.
+   * Path values become parameter defaults, query and body values become the AI mapping, and the
+   * natural language input is cleared so the engine does not re-resolve them.
+   *
+   * @param endpoint - The catalog endpoint.
+   * @param args - The validated tool arguments.
+   * @returns The endpoint to execute.
+   * @private
+   */
+  private bindArguments(endpoint: ApiEndpoint, args: Record<string, any>): ApiEndpoint {
+    const pathParams: Record<string, ParameterDefinition> = {};
+    for (const [key, param] of Object.entries(endpoint.pathParams)) {
+      pathParams[key] = args['path']?.[key] !== undefined
+        ? { ...param, defaultValue: args['path'][key] }
+        : param;
+    }
+
+    return new ApiEndpoint({
+      ...endpoint,
+      pathParams,
+      naturalLanguageInput: undefined,
+      connections: [],
+      aiMapping: {
+        input: JSON.stringify(args),
+        resolvedParams: args['query'] ?? {},
+        resolvedBody: args['body'],
+        lastUpdated: new Date()
+      }
+    });
+  }
+
+  /**
+   * Validates one section of the tool arguments against its parameter definitions.
+   *
+   * @param values - The section values provided by the model.
+   * @param definitions - The parameter definitions of the section.
+   * @param section - The section name, used as error prefix.
+   * @returns The validation errors, prefixed with the section name.
+   * @private
+   */
+  private validateSection(
+    values: Record<string, any>,
+    definitions: Record<string, ParameterDefinition>,
+    section: 'path' | 'query' | 'body'
+  ): string[] {
+    if (Object.keys(definitions).length === 0) {
+      return [];
+    }
+    return SchemaValidation.validateParameters(values, definitions).errors.map(error => `${section}: ${error}`);
+  }
+
+  /**
+   * Serializes a step outcome as the tool result message content, truncating large response bodies.
+   *
+   * @param step - The executed or rejected step.
+   * @returns The JSON content for the tool message.
+   * @private
+   */
+  private formatToolResult(step: AgentStep): string {
+    if (!step.result) {
+      return JSON.stringify({ success: false, error: step.error });
+    }
+
+    return JSON.stringify({
+      success: step.result.success,
+      statusCode: step.result.statusCode,
+      ...(step.result.error ? { error: step.result.error } : {}),
+      body: HttpResponseUtils.truncateArrays(step.result.responseData.body, 5, 5)
+    });
+  }
+
+  /**
+   * Renders the agent system prompt listing the goal and available endpoints.
+   *
+   * @param goal - The natural-language goal.
+   * @param tools - The tool definitions offered to the model.
+   * @returns The rendered system prompt.
+   * @private
+   */
+  private renderSystemPrompt(goal: string, tools: LlmToolDefinition[]): string {
+    return this.engine.templates.render('agent-system-prompt', {
+      goal,
+      endpoints: tools.map(tool => ({ toolName: tool.name, description: tool.description }))
+    });
+  }
+}
@@ -1,5 +1,5 @@
 import { json } from "stream/consumers";
-import { AOAI } from "../ai/AOAI";
+import { LlmProvider } from "../ai/LlmProvider";
 import { ApiEndpoint } from "../models/ApiEndpoint";
 import { AuthConfig, AuthType } from "../models/AuthConfig";
 import { ExecutionContext } from "../models/ExecutionContext";
@@ -10,16 +10,41 @@ import { HttpResponseUtils } from "../utils/HttpResponseUtils";
 import { ParameterDefinition } from "../models/ParameterDefinition";
 import { BodySchema } from "../models/BodySchema";
 import { ConnectionBuilder } from "../models/ConnectionBuilder";
+import { EndpointConnection } from "../models/EndpointConnection";
 import { ParameterType } from "../models/ParameterType";
 import { SchemaValidation } from "../utils/SchemaValidation";
+import { JsonSchemaBuilder } from "../utils/JsonSchemaBuilder";
+import { AiJsonUtils } from "../utils/AiJsonUtils";
+import { LlmResponseFormat } from "../models/LlmResponseFormat";
+import { LlmRequest } from "../models/LlmRequest";
+import { LlmMessage } from "../models/LlmMessage";
+import { LlmToolDefinition } from "../models/LlmTool";
+import { LlmResponse } from "../models/LlmResponse";
+import { FieldConfidence } from "../models/FieldConfidence";
+import { ConfidenceScoring } from "../utils/ConfidenceScoring";
+import { PromptSanitizer } from "../utils/PromptSanitizer";
+import { Redaction } from "../utils/Redaction";
+import { PromptContextBuilder } from "../utils/PromptContextBuilder";
+import { LlmSettings } from "../models/LlmSettings";
+import { AiResolution } from "../models/AiResolution";
+import { AiExecutionDetails } from "../models/AiExecutionDetails";
+import { FlowUsageReport } from "../models/FlowUsageReport";
+import { ModelPriceTable } from "../models/ModelPrice";
+import { UsageAccounting } from "../utils/UsageAccounting";
+import { ResolutionCache } from "../ai/ResolutionCache";
+import { CanonicalJson } from "../utils/CanonicalJson";
 import { AuthHandlerRegistry } from '../auth/AuthHandlerRegistry';
 import { ApiKeyAuthHandler } from '../auth/ApiKeyAuthHandler';
 import { BearerTokenAuthHandler } from '../auth/BearerTokenAuthHandler';
 import { BasicAuthHandler } from '../auth/BasicAuthHandler';
 import { RequestData } from '../models/RequestData';
-import Handlebars from 'handlebars';
-import fs from 'fs';
-import path from 'path';
+import { RecoveryAttempt } from '../models/RecoveryAttempt';
+import { ConsensusOptions } from '../models/ConsensusOptions';
+import { ConsensusConflict, ConsensusSample } from '../models/ConsensusReport';
+import { ExtractionStep } from '../models/ExtractionStep';
+import { RuleBasedResolver } from './RuleBasedResolver';
+import { PromptTemplateRegistry } from "../ai/PromptTemplateRegistry";
+import { PromptTemplateOverrides } from "../models/PromptTemplateOverrides";
 
 /**
  * Main execution engine class for managing API endpoint execution, authentication, and context.
@@ -28,7 +53,13 @@ import path from 'path';
  * @property {ExecutionContext} context - The execution context holding results and variables.
  * @property {AuthHandlerRegistry} authRegistry - Registry for authentication handlers.
  * @property {AuthConfig | undefined} globalAuth - Optional global authentication configuration.
- * @property {AOAI} aoai - Azure OpenAI API wrapper instance for AI-powered operations.
+ * @property {LlmProvider | null} llm - LLM provider used for AI-powered operations, or null to resolve with rules only.
+ * @property {RuleBasedResolver} ruleResolver - Deterministic resolver used when no LLM provider is configured.
+ * @property {ResolutionCache | undefined} resolutionCache - Optional cache of AI parameter resolutions.
+ * @property {ModelPriceTable} modelPrices - Per-model prices used to estimate the cost of AI calls.
+ * @property {LlmSettings} llmSettings - Default LLM settings of AI calls, overridable per endpoint.
+ * @property {PromptTemplateRegistry} templates - Compiled prompt templates used for AI resolution.
+ * @property {PromptTemplateOverrides} promptTemplates - Default template overrides, overridable per endpoint.
  */
 export class ApiExecutionEngine {
   /**
@@ -50,16 +81,93 @@ export class ApiExecutionEngine {
   private globalAuth: AuthConfig | undefined;
 
   /**
-   * Azure OpenAI API wrapper instance for AI-powered operations.
+   * LLM provider used for AI-powered operations (Azure OpenAI, OpenAI-compatible, scripted, ...). When null, parameters
+   * are resolved by {@link ruleResolver} and no model is called.
    */
-  aoai: AOAI;
+  llm: LlmProvider | null;
+
+  /**
+   * Deterministic resolver of parameters used when no LLM provider is configured.
+   */
+  readonly ruleResolver: RuleBasedResolver;
+
+  /**
+   * Optional cache of AI parameter resolutions. When set, identical resolution questions are answered from the cache.
+   * @private
+   */
+  private resolutionCache: ResolutionCache | undefined;
+
+  /**
+   * Per-model prices used to estimate the cost of AI calls.
+   * @private
+   */
+  private modelPrices: ModelPriceTable;
+
+  /**
+   * Default LLM settings of AI calls. `ApiEndpoint.llmSettings` overrides them field by field.
+   * @private
+   */
+  private llmSettings: LlmSettings;
+
+  /**
+   * Compiled prompt templates used for AI resolution. Shared with {@link ApiAgent}.
+   */
+  readonly templates: PromptTemplateRegistry;
+
+  /**
+   * Templates used instead of the built-in ones. `ApiEndpoint.promptTemplates` overrides them field by field.
+   * @private
+   */
+  private promptTemplates: PromptTemplateOverrides;
+
+  /**
+   * Built-in template of each prompt.
+   * @private
+   */
+  private static readonly DEFAULT_TEMPLATES: Required<PromptTemplateOverrides> = {
+    path: 'path-parameters-prompt',
+    query: 'query-parameters-prompt',
+    body: 'body-parameters-prompt',
+    combined: 'combined-parameters-prompt',
+    repair: 'repair-prompt',
+    sourceField: 'source-field-prompt',
+    recovery: 'recovery-prompt',
+    extraction: 'extraction-prompt'
+  };
+
+  /**
+   * Status codes whose error responses are sent to the model for correction when `aiRecovery` is enabled.
+   * @private
+   */
+  private static readonly RECOVERABLE_STATUS_CODES = [400, 404, 422];
+
+  /**
+   * AI usage of the most recent executeFlow run.
+   * @private
+   */
+  private lastFlowUsage: FlowUsageReport | undefined;
 
   /**
    * Creates an instance of ApiExecutionEngine.
-   * @param aoai - The AOAI instance for AI-powered operations.
-   * @param options - Optional configuration, including a global authentication config.
+   * @param llm - The LLM provider for AI-powered operations, or null to run without a model: parameters are then
+   *   resolved by the rule resolver, and source-field repair and error recovery are skipped.
+   * @param options - Optional configuration: a global authentication config, an AI resolution cache, a per-model
+   *   price table for cost estimates (default: {@link UsageAccounting.DEFAULT_PRICES}), default LLM settings, a prompt
+   *   template registry (default: {@link PromptTemplateRegistry.default}), default template overrides and the rule
+   *   resolver used without an LLM provider (default: a {@link RuleBasedResolver} without registered rules).
    */
-  constructor(aoai: AOAI, options: { globalAuth?: AuthConfig } = {}) {
+  constructor(
+    llm: LlmProvider | null,
+    options: {
+      globalAuth?: AuthConfig;
+      resolutionCache?: ResolutionCache;
+      modelPrices?: ModelPriceTable;
+      llmSettings?: LlmSettings;
+      templates?: PromptTemplateRegistry;
+      promptTemplates?: PromptTemplateOverrides;
+      ruleResolver?: RuleBasedResolver;
+    } = {}
+  ) {
     this.context = {
       results: new Map(),
       variables: new Map()
@@ -70,7 +178,33 @@ export class ApiExecutionEngine {
     this.authRegistry.register('apiKey', new ApiKeyAuthHandler());
     this.authRegistry.register('bearerToken', new BearerTokenAuthHandler());
     this.authRegistry.register('basic', new BasicAuthHandler());
-    this.aoai = aoai;
+    this.llm = llm;
+    this.resolutionCache = options.resolutionCache;
+    this.modelPrices = options.modelPrices ?? UsageAccounting.DEFAULT_PRICES;
+    this.llmSettings = options.llmSettings ?? {};
+    this.templates = options.templates ?? PromptTemplateRegistry.default;
+    this.promptTemplates = options.promptTemplates ?? {};
+    this.ruleResolver = options.ruleResolver ?? new RuleBasedResolver();
+  }
+
+  /**
+   * Returns the LLM request fields for an endpoint: the engine's default LLM settings overridden by the endpoint's.
+   * The deployment, when set, takes precedence over the model name.
+   *
+   * @param endpoint - (Optional) The endpoint whose overrides apply.
+   * @returns The model, temperature, max tokens, API version and timeout to send; unset fields are omitted.
+   */
+  public getLlmRequestSettings(endpoint?: ApiEndpoint): Omit<LlmRequest, 'messages'> {
+    const settings: LlmSettings = { ...this.llmSettings, ...endpoint?.llmSettings };
+    const model = settings.deployment ?? settings.model;
+
+    return {
+      ...(model !== undefined ? { model } : {}),
+      ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
+      ...(settings.maxTokens !== undefined ? { maxTokens: settings.maxTokens } : {}),
+      ...(settings.apiVersion !== undefined ? { apiVersion: settings.apiVersion } : {}),
+      ...(settings.timeout !== undefined ? { timeout: settings.timeout } : {})
+    };
   }
 
   /**
@@ -87,36 +221,28 @@ export class ApiExecutionEngine {
     console.log(`Executing endpoint ${endpoint.name}`);
 
     const startTime = Date.now();
+    const ai: AiExecutionDetails = { calls: [], attempts: [], usage: UsageAccounting.summarize([]) };
+    const recovery: RecoveryAttempt[] = [];
+    const unresolvedFields: string[] = [];
 
     try {
-      // Validate endpoint configuration
-      const validationErrors = endpoint.validate();
-      if (validationErrors.length > 0) {
-        throw new Error(`Endpoint validation failed: ${validationErrors.join(', ')}`);
-      }
-
-      this.validateTypedConnections(endpoint);
+      // Resolve all parameters and data dependencies, and build the request configuration
+      const { resolvedData, request } = await this.prepareRequest(endpoint, options, ai, unresolvedFields);
+      let requestConfig = await this.applyAuth(endpoint, request);
 
-      // Resolve all parameters and data dependencies
-      const resolvedData = await this.resolveEndpointData(endpoint);
-
-      // Build request configuration
-      let requestConfig = await this.buildRequestConfig(endpoint, resolvedData);
-
-      // Determine auth config (endpoint or global)
-      const authConfig: AuthConfig | undefined = endpoint.auth || this.globalAuth;
-      if (authConfig && authConfig.type !== 'none') {
-        const handler = this.authRegistry.getHandler(authConfig.type);
-        if (handler) {
-          requestConfig = await handler.applyAuth(requestConfig, authConfig, this.context);
-        } else if (authConfig.type === 'custom' && authConfig.customHandler) {
-          requestConfig = await authConfig.customHandler(this.context);
+      // Execute HTTP request with retries
+      let response = await this.executeHttpRequest(requestConfig, options);
+
+      // Optionally let the model correct the request from the error response, and retry once
+      if (options.aiRecovery && this.llm && ApiExecutionEngine.RECOVERABLE_STATUS_CODES.includes(response.status)) {
+        const recovered = await this.recoverFromErrorResponse(endpoint, resolvedData, requestConfig, response, options, ai);
+        recovery.push(recovered.attempt);
+        if (recovered.request && recovered.response) {
+          requestConfig = recovered.request;
+          response = recovered.response;
         }
       }
 
-      // Execute HTTP request with retries
-      const response = await this.executeHttpRequest(requestConfig, options);
-
       if (endpoint.connections.length > 0) {
         console.log(this.formatConnectionDataForLogging(endpoint));
       }
@@ -139,7 +265,10 @@ export class ApiExecutionEngine {
           body: response.data,
           size: JSON.stringify(response.data).length
         },
-        timestamp: new Date()
+        timestamp: new Date(),
+        ...this.finalizeAiDetails(ai),
+        ...(recovery.length > 0 ? { recovery } : {}),
+        ...(unresolvedFields.length > 0 ? { unresolvedFields } : {})
       };
 
       // Store result in context for downstream endpoints
@@ -171,7 +300,10 @@ export class ApiExecutionEngine {
           size: 0
         },
         error: error instanceof Error ? error.message : String(error),
-        timestamp: new Date()
+        timestamp: new Date(),
+        ...this.finalizeAiDetails(ai),
+        ...(recovery.length > 0 ? { recovery } : {}),
+        ...(unresolvedFields.length > 0 ? { unresolvedFields } : {})
       };
 
       this.context.results.set(endpoint.id, result);
@@ -180,14 +312,148 @@ export class ApiExecutionEngine {
   }
 
   /**
-   * Executes multiple API endpoints in dependency order.
+   * Runs the resolution step of an endpoint execution without sending the request: connection data, defaults and AI
+   * (or rule-based) resolution produce the request that would be sent. Authentication is not applied and the result
+   * is not stored in the execution context. Used by {@link ResolutionEvaluator} to measure resolution accuracy.
+   *
+   * @param endpoint - The API endpoint to resolve.
+   * @param options - Optional execution options; resolution settings apply, HTTP settings are ignored.
+   * @returns The resolved path parameters, query parameters and body, the unauthenticated request, the AI details
+   *   when any model call was made, the unresolved fields of rule-based resolution, and the error if resolution failed.
+   */
+  public async resolveRequest(
+    endpoint: ApiEndpoint,
+    options: ExecutionOptions = {}
+  ): Promise<{ resolution?: AiResolution; requestData?: RequestData; ai?: AiExecutionDetails; unresolvedFields?: string[]; error?: string }> {
+    const ai: AiExecutionDetails = { calls: [], attempts: [], usage: UsageAccounting.summarize([]) };
+    const unresolvedFields: string[] = [];
+
+    try {
+      const { resolvedData, request } = await this.prepareRequest(endpoint, options, ai, unresolvedFields);
+      return {
+        resolution: {
+          pathParams: resolvedData.pathParams,
+          queryParams: resolvedData.queryParams,
+          ...(request.body !== undefined && request.body !== null ? { body: request.body } : {})
+        },
+        requestData: request,
+        ...this.finalizeAiDetails(ai),
+        ...(unresolvedFields.length > 0 ? { unresolvedFields } : {})
+      };
+    } catch (error) {
+      return {
+        error: error instanceof Error ? error.message : String(error),
+        ...this.finalizeAiDetails(ai),
+        ...(unresolvedFields.length > 0 ? { unresolvedFields } : {})
+      };
+    }
+  }
+
+  /**
+   * Runs an extraction step: asks the model to answer the step's query over the response of its source node, validates
+   * the answer against the step's definition (asking for corrections like AI resolution does) and stores it in
+   * `ExecutionContext.variables` under the step's id. The result, with the answer as response body, is stored in the
+   * execution context like an endpoint result, so that connections can read it.
+   *
+   * The source response is fitted into `options.contextTokenBudget`; `redaction` and `promptSafety.stripInstructions`
+   * apply as for connection data.
+   *
+   * @param step - The extraction step.
+   * @param options - Optional execution options.
+   * @returns The execution result of the step; no request is sent, so the status code is 0.
+   */
+  public async executeExtraction(step: ExtractionStep, options: ExecutionOptions = {}): Promise<ExecutionResult> {
+    console.log(`Extracting ${step.id} from ${step.sourceNodeId}`);
+
+    const startTime = Date.now();
+    const ai: AiExecutionDetails = { calls: [], attempts: [], usage: UsageAccounting.summarize([]) };
+    const result = (success: boolean, value: any, error?: string): ExecutionResult => ({
+      endpointId: step.id,
+      success,
+      statusCode: 0,
+      responseTime: Date.now() - startTime,
+      requestData: { url: '', method: 'GET', headers: {}, queryParams: {} },
+      responseData: { headers: {}, body: value, size: JSON.stringify(value ?? null).length },
+      ...(error !== undefined ? { error } : {}),
+      timestamp: new Date(),
+      ...this.finalizeAiDetails(ai)
+    });
+
+    try {
+      const sourceResult = this.context.results.get(step.sourceNodeId);
+      if (!sourceResult || !sourceResult.success) {
+        throw new Error(`Extraction '${step.id}': source '${step.sourceNodeId}' ${sourceResult ? 'failed' : 'not executed'}`);
+      }
+      if (!this.llm) {
+        throw new Error(`Extraction '${step.id}' requires an LLM provider`);
+      }
+
+      // The same defenses as for connection data apply to the queried response
+      const placeholders = new Map<string, any>();
+      let responseData = options.redaction
+        ? Redaction.redact(sourceResult.responseData.body, options.redaction, placeholders)
+        : sourceResult.responseData.body;
+      if (options.promptSafety?.stripInstructions) {
+        responseData = PromptSanitizer.stripInstructions(responseData, step.sourceNodeId).value;
+      }
+
+      const fitted = PromptContextBuilder.fitToBudget(
+        [{ sourceField: '', mapping: step.query, responseData }],
+        options.contextTokenBudget
+      );
+      if (fitted.reductions[0]! > 0) {
+        console.log(`✂️ Response of '${step.sourceNodeId}' shrunk to ~${fitted.tokens} tokens to fit the prompt budget`);
+      }
+
+      const definitions: Record<string, ParameterDefinition> = { value: { ...step.definition, required: true } };
+      // The answer may be null when nothing matches, so strict output must not make the value non-nullable
+      const answerDefinitions: Record<string, ParameterDefinition> = { value: { ...step.definition, required: false } };
+      const prompt = this.renderPrompt('extraction', undefined, {
+        query: step.query,
+        sourceEndpoint: step.sourceNodeId,
+        valueType: step.definition.type,
+        definition: JSON.stringify(step.definition, null, 2),
+        responseData: PromptSanitizer.escapeData(fitted.responseData[0]!)
+      });
+
+      const { value } = await this.completeWithRepair(prompt, {
+        responseFormat: this.buildResponseFormat('extracted_value', answerDefinitions),
+        purpose: 'extraction',
+        ai,
+        endpoint: undefined,
+        repairAttempts: options.aiRepairAttempts
+      }, response => {
+        const raw = this.parseAiJson(response, undefined, placeholders);
+        if (raw?.value === null) {
+          // Not found is an answer, not an invalid response; asking again would not change it
+          throw new Error(`Extraction '${step.id}': no value in the response of '${step.sourceNodeId}' matches "${step.query}"`);
+        }
+        const parsed = JsonSchemaBuilder.removeNullOptionals(raw, definitions);
+        this.validateParameterSchema(parsed, definitions, 'extraction');
+        return parsed.value;
+      });
+
+      this.context.variables.set(step.id, value);
+      const extracted = result(true, value);
+      this.context.results.set(step.id, extracted);
+      console.log(`🔎 Extracted ${step.id}:`, value);
+      return extracted;
+    } catch (error) {
+      const failed = result(false, null, error instanceof Error ? error.message : String(error));
+      this.context.results.set(step.id, failed);
+      return failed;
+    }
+  }
+
+  /**
+   * Executes multiple API endpoints and extraction steps in dependency order.
    * Stops execution on error unless continueOnError is set to true in options.
-   * @param endpoints - The list of API endpoints to execute.
+   * @param endpoints - The list of API endpoints and extraction steps to execute.
    * @param options - Optional execution options.
-   * @returns An array of execution results for each endpoint.
+   * @returns An array of execution results for each endpoint and extraction step.
    */
   public async executeFlow(
-    endpoints: ApiEndpoint[],
+    endpoints: Array<ApiEndpoint | ExtractionStep>,
     options: ExecutionOptions = {}
   ): Promise<ExecutionResult[]> {
     // Sort endpoints by dependencies
@@ -195,7 +461,9 @@ export class ApiExecutionEngine {
     const results: ExecutionResult[] = [];
 
     for (const endpoint of sortedEndpoints) {
-      const result = await this.executeEndpoint(endpoint, options);
+      const result = endpoint instanceof ApiEndpoint
+        ? await this.executeEndpoint(endpoint, options)
+        : await this.executeExtraction(endpoint, options);
       results.push(result);
 
       // Stop execution on error if continueOnError is false
@@ -204,20 +472,56 @@ export class ApiExecutionEngine {
       }
     }
 
+    this.lastFlowUsage = UsageAccounting.rollup(results);
+    if (this.lastFlowUsage.total.calls > 0) {
+      const { total } = this.lastFlowUsage;
+      console.log(
+        `💰 AI usage: ${total.calls} call(s), ${total.totalTokens} tokens ` +
+        `(${total.promptTokens} prompt / ${total.completionTokens} completion), ` +
+        `${total.latencyMs}ms, est. cost ${total.cost.toFixed(4)}` +
+        (total.unpricedCalls > 0 ? ` (${total.unpricedCalls} unpriced call(s))` : '')
+      );
+    }
+
     return results;
   }
 
+  /**
+   * Returns the AI usage of the most recent executeFlow run: totals, and breakdowns per endpoint and per model.
+   *
+   * @returns The usage report, or undefined if no flow has run yet.
+   */
+  public getLastFlowUsage(): FlowUsageReport | undefined {
+    return this.lastFlowUsage;
+  }
+
+  /**
+   * Computes the usage totals of the AI details collected during an endpoint execution.
+   *
+   * @param ai - The AI details collected during the execution.
+   * @returns An object with the `ai` section to spread into the result, or an empty object when no model call was
+   *   made and no approval was requested.
+   */
+  private finalizeAiDetails(ai: AiExecutionDetails): { ai?: AiExecutionDetails } {
+    if (ai.calls.length === 0 && !ai.approval && !ai.promptSafety) {
+      return {};
+    }
+
+    ai.usage = UsageAccounting.summarize(ai.calls);
+    return { ai };
+  }
+
   /**
    * Validates the AI-generated parameter object against the provided schema.
    * Throws an error if validation fails, and logs warnings if present.
    * @param aiResponse - The AI-generated parameter object.
    * @param schema - The parameter schema to validate against.
-   * @param contextType - The context type ('path', 'query', or 'body').
+   * @param contextType - The context type ('path', 'query', 'body' or 'extraction').
    */
   private validateParameterSchema(
     aiResponse: any,
     schema: Record<string, ParameterDefinition>,
-    contextType: 'path' | 'query' | 'body'
+    contextType: 'path' | 'query' | 'body' | 'extraction'
   ): void {
     // Use enhanced validation
     const result = SchemaValidation.validateParameters(aiResponse, schema);
@@ -260,7 +564,7 @@ export class ApiExecutionEngine {
       }
 
       // Check if source field exists in response
-      const value = this.extractValueFromResult(sourceResult, connection.sourceField);
+      const value = this.extractValueFromResult(sourceResult, this.getConnectionPath(sourceResult, connection));
       if (value === undefined) {
         issues.push(`Connection '${connection.id}': Source field '${connection.sourceField}' not found in response`);
 
@@ -285,6 +589,106 @@ export class ApiExecutionEngine {
     }
   }
 
+  /**
+   * Returns the path used to read a connection's value from its source result: `sourceField` when it is found in
+   * the response, else the `aiResolvedPath` chosen by the model when that is found, else `sourceField`.
+   *
+   * @param result - The execution result of the source endpoint.
+   * @param connection - The connection.
+   * @returns The path to extract.
+   */
+  private getConnectionPath(result: ExecutionResult, connection: EndpointConnection): string {
+    if (
+      connection.aiResolvedPath !== undefined &&
+      this.extractValueFromResult(result, connection.sourceField) === undefined &&
+      this.extractValueFromResult(result, connection.aiResolvedPath) !== undefined
+    ) {
+      return connection.aiResolvedPath;
+    }
+    return connection.sourceField;
+  }
+
+  /**
+   * Asks the model to pick the source path of connections whose `sourceField` (and earlier `aiResolvedPath`) is not
+   * found in the source response. The model chooses among the available response fields using the connection's
+   * natural language mapping; a valid choice is stored in `aiResolvedPath`, so the current and later runs read the
+   * value from it without asking again. Failed model calls are logged and leave the connection unresolved.
+   *
+   * @param endpoint - The endpoint whose connections are checked.
+   * @param options - Execution options; `resolveSourceFields: false` disables the lookup, and `redaction` applies to
+   *   the response preview sent to the model.
+   * @param ai - Collects the model calls made.
+   */
+  private async resolveSourceFields(endpoint: ApiEndpoint, options: ExecutionOptions, ai: AiExecutionDetails): Promise<void> {
+    if (options.resolveSourceFields === false || !this.llm) {
+      return;
+    }
+
+    for (const connection of endpoint.connections) {
+      const sourceResult = this.context.results.get(connection.sourceNodeId);
+      if (!sourceResult || !sourceResult.success) {
+        continue;
+      }
+      if (this.extractValueFromResult(sourceResult, this.getConnectionPath(sourceResult, connection)) !== undefined) {
+        continue;
+      }
+
+      const preview = HttpResponseUtils.truncateArrays(sourceResult.responseData.body, 1, 4);
+      const availableFields = this.getAvailableResponseFields(preview, '', 4);
+      if (availableFields.length === 0) {
+        continue;
+      }
+
+      const responseData = options.redaction ? Redaction.redact(preview, options.redaction, new Map()) : preview;
+      const prompt = this.renderPrompt('sourceField', endpoint, {
+        sourceEndpoint: connection.sourceNodeId,
+        sourceField: connection.sourceField,
+        mapping: connection.naturalLanguageMapping,
+        targetField: connection.targetField,
+        targetLocation: connection.targetLocation,
+        targetType: connection.targetType,
+        availableFields,
+        responseData: PromptSanitizer.escapeData(JSON.stringify(responseData ?? null, null, 2))
+      });
+
+      try {
+        const response = await this.completePrompt(prompt, {
+          responseFormat: {
+            type: 'json_schema',
+            name: 'source_field',
+            schema: {
+              type: 'object',
+              properties: { path: { type: 'string', enum: [...availableFields, ''] } },
+              required: ['path'],
+              additionalProperties: false
+            },
+            strict: true
+          },
+          purpose: 'source-field',
+          ai,
+          endpoint
+        });
+
+        const path = this.parseAiJson(response.content)?.path;
+        if (
+          typeof path === 'string' &&
+          availableFields.includes(path) &&
+          this.extractValueFromResult(sourceResult, path) !== undefined
+        ) {
+          connection.aiResolvedPath = path;
+          console.log(`🔗 Connection '${connection.id}': '${connection.sourceField}' not found, using AI-resolved path '${path}'`);
+        } else {
+          console.warn(`⚠️ Connection '${connection.id}': no field of '${connection.sourceNodeId}' matches "${connection.naturalLanguageMapping}"`);
+        }
+      } catch (error) {
+        console.warn(
+          `⚠️ Connection '${connection.id}': could not resolve source field '${connection.sourceField}':`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+  }
+
   /**
    * Recursively collects available field paths from a response body object, up to a specified depth.
    * Does not recurse into arrays to avoid excessive field enumeration.
@@ -439,8 +843,8 @@ export class ApiExecutionEngine {
       if (sourceResult && sourceResult.success) {
         availableConnections.push(connection.sourceNodeId);
 
-        // Check if the specified source field exists in the response
-        const value = this.extractValueFromResult(sourceResult, connection.sourceField);
+        // Check if the specified source field (or the path the model chose for it) exists in the response
+        const value = this.extractValueFromResult(sourceResult, this.getConnectionPath(sourceResult, connection));
         if (value === undefined) {
           warnings.push(
             `Connection ${connection.sourceNodeId} → ${endpoint.id}: ` +
@@ -468,12 +872,16 @@ export class ApiExecutionEngine {
    * This includes data from source endpoints, field mappings, and a summary string for use in AI prompts.
    *
    * @param endpoint - The API endpoint whose connections are to be analyzed.
+   * @param options - Execution options; with `redaction`, sensitive values in the response data are replaced with
+   *   placeholders, and with `promptSafety.stripInstructions`, instruction-like strings are removed.
    * @returns An object containing:
    *   - hasConnections: Whether any connections are present and have data.
    *   - connectionData: Array of objects describing each connection, including truncated response data.
    *   - contextSummary: A human-readable summary of the available connection data.
+   *   - strippedFields: The removed strings, as `<source endpoint id>.<path>`.
+   *   - placeholders: The redacted values by placeholder, for restoring them in resolved values.
    */
-  private gatherConnectionContext(endpoint: ApiEndpoint): {
+  private gatherConnectionContext(endpoint: ApiEndpoint, options: ExecutionOptions = {}): {
     hasConnections: boolean;
     connectionData: Array<{
       sourceEndpoint: string;
@@ -484,6 +892,8 @@ export class ApiExecutionEngine {
       responseData: any;
     }>;
     contextSummary: string;
+    strippedFields: string[];
+    placeholders: Map<string, any>;
   } {
     const connectionData: Array<{
       sourceEndpoint: string;
@@ -493,6 +903,8 @@ export class ApiExecutionEngine {
       mapping: string;
       responseData: any;
     }> = [];
+    const strippedFields: string[] = [];
+    const placeholders = new Map<string, any>();
 
     // Gather data from connected endpoints
     for (const connection of endpoint.connections) {
@@ -506,13 +918,25 @@ export class ApiExecutionEngine {
           3  // Max depth for AI context
         );
 
+        // Keep personal data and secrets out of the prompt; placeholders are mapped back after resolution
+        let responseData = options.redaction
+          ? Redaction.redact(truncatedResponse, options.redaction, placeholders)
+          : truncatedResponse;
+
+        // Upstream responses are untrusted; optionally drop strings that address the model
+        if (options.promptSafety?.stripInstructions) {
+          const stripped = PromptSanitizer.stripInstructions(responseData, connection.sourceNodeId);
+          responseData = stripped.value;
+          strippedFields.push(...stripped.strippedPaths);
+        }
+
         connectionData.push({
           sourceEndpoint: connection.sourceNodeId,
-          sourceField: connection.sourceField,
+          sourceField: this.getConnectionPath(sourceResult, connection),
           targetField: connection.targetField,
           targetLocation: connection.targetLocation,
           mapping: connection.naturalLanguageMapping,
-          responseData: truncatedResponse
+          responseData
         });
       }
     }
@@ -528,10 +952,38 @@ export class ApiExecutionEngine {
     return {
       hasConnections: connectionData.length > 0,
       connectionData,
-      contextSummary
+      contextSummary,
+      strippedFields,
+      placeholders
     };
   }
 
+  /**
+   * Prepares connection data for a prompt: fits the response data of all connections into the token budget with
+   * {@link PromptContextBuilder}, then escapes it.
+   *
+   * @param endpoint - The API endpoint being resolved.
+   * @param connectionContext - The connection context gathered for the prompt.
+   * @param options - Execution options; `contextTokenBudget` sets the budget.
+   * @returns The connection entries for the prompt template.
+   */
+  private formatConnectionData(
+    endpoint: ApiEndpoint,
+    connectionContext: { connectionData: Array<{ sourceEndpoint: string; sourceField: string; mapping: string; responseData: any }> },
+    options: ExecutionOptions
+  ): Array<{ sourceEndpoint: string; mapping: string; responseData: string }> {
+    const fitted = PromptContextBuilder.fitToBudget(connectionContext.connectionData, options.contextTokenBudget);
+    if (fitted.reductions.some(count => count > 0)) {
+      console.log(`✂️ Connection data for '${endpoint.id}' shrunk to ~${fitted.tokens} tokens to fit the prompt budget`);
+    }
+
+    return connectionContext.connectionData.map((conn, index) => ({
+      sourceEndpoint: conn.sourceEndpoint,
+      mapping: conn.mapping,
+      responseData: PromptSanitizer.escapeData(fitted.responseData[index]!)
+    }));
+  }
+
   /**
    * Resolves all data required for an endpoint, including parameters, body, headers, and data from connections.
    * Applies any necessary transformations and merges connection data into the appropriate locations.
@@ -563,7 +1015,7 @@ export class ApiExecutionEngine {
       const sourceResult = this.context.results.get(connection.sourceNodeId);
 
       if (sourceResult && sourceResult.success) {
-        const value = this.extractValueFromResult(sourceResult, connection.sourceField);
+        const value = this.extractValueFromResult(sourceResult, this.getConnectionPath(sourceResult, connection));
 
         if (value !== undefined) {
           // Apply transformation if specified
@@ -596,54 +1048,58 @@ export class ApiExecutionEngine {
 
   /**
    * Resolves path parameters for the given endpoint using AI, incorporating connection context and schema validation.
-   * Updates the resolvedData.pathParams object with validated AI-generated values.
    *
    * @param endpoint - The API endpoint whose path parameters are to be resolved.
-   * @param resolvedData - The object to update with resolved path parameters.
+   * @param options - Execution options, including the number of correction attempts.
+   * @param ai - Collects the model calls and resolution attempts made.
+   * @param confidence - Receives the confidence of each resolved path parameter.
+   * @param model - (Optional) Model or deployment to use instead of the endpoint's.
+   * @returns The validated AI-generated path parameter values.
    * @throws Error if the AI response is not valid JSON or fails schema validation.
    */
-  private async resolvePathParameters(endpoint: ApiEndpoint, resolvedData: any): Promise<void> {
-    const connectionContext = this.gatherConnectionContext(endpoint);
-
-    // Load and compile Handlebars template
-    const templatePath = path.join(__dirname, 'prompt-templates', 'path-parameters-prompt.hbs');
-    const templateSource = fs.readFileSync(templatePath, 'utf8');
-    const template = Handlebars.compile(templateSource);
+  private async resolvePathParameters(
+    endpoint: ApiEndpoint,
+    options: ExecutionOptions,
+    ai: AiExecutionDetails,
+    confidence: Record<string, FieldConfidence>,
+    model?: string
+  ): Promise<Record<string, any>> {
+    const connectionContext = this.gatherConnectionContext(endpoint, options);
 
     // Prepare context for template
     const context = {
       pathParamsSchema: JSON.stringify(endpoint.pathParams, null, 2),
       connectionContextSummary: connectionContext.contextSummary,
       hasConnections: connectionContext.hasConnections,
-      connectionData: connectionContext.connectionData.map(conn => ({
-        sourceEndpoint: conn.sourceEndpoint,
-        mapping: conn.mapping,
-        responseData: JSON.stringify(conn.responseData, null, 2)
-      })),
+      connectionData: this.formatConnectionData(endpoint, connectionContext, options),
       naturalLanguageInput: endpoint.naturalLanguageInput
     };
 
-    const prompt = template(context);
+    const prompt = this.renderPrompt('path', endpoint, context);
 
     try {
-      const response = await this.aoai.chat(prompt, "gpt-4.1");
-      const cleanResponse = this.cleanAiJsonResponse(response);
-      const aiResolvedParams = JSON.parse(cleanResponse);
-
-      // Validate against schema before using
-      this.validateParameterSchema(aiResolvedParams, endpoint.pathParams, 'path');
-
-      // Only update existing path parameters that passed validation
-      Object.keys(resolvedData.pathParams).forEach(key => {
-        if (aiResolvedParams.hasOwnProperty(key)) {
-          resolvedData.pathParams[key] = aiResolvedParams[key];
-        }
+      const { value: aiResolvedParams, response } = await this.completeWithRepair(prompt, {
+        responseFormat: this.buildResponseFormat('path_parameters', endpoint.pathParams),
+        purpose: 'path',
+        ai,
+        endpoint,
+        repairAttempts: options.aiRepairAttempts,
+        model
+      }, response => {
+        const parsed = this.parseAiJson(response, endpoint.pathParams, connectionContext.placeholders);
+
+        // Validate against schema before using
+        this.validateParameterSchema(parsed, endpoint.pathParams, 'path');
+        return parsed;
       });
 
       console.log(`AI resolved path params (validated):`, aiResolvedParams);
+      Object.assign(confidence, this.scoreResolvedSection('path', aiResolvedParams, endpoint, connectionContext, response));
       if (connectionContext.hasConnections) {
         console.log(`Used data from ${connectionContext.connectionData.length} connected endpoint(s)`);
       }
+
+      return aiResolvedParams;
     } catch (error: any) {
       if (error instanceof SyntaxError) {
         throw new Error(`AI path parameter response is not valid JSON: ${error.message}`);
@@ -657,54 +1113,58 @@ export class ApiExecutionEngine {
 
   /**
    * Resolves query parameters for the given endpoint using AI, incorporating connection context and schema validation.
-   * Updates the resolvedData.queryParams object with validated AI-generated values.
    *
    * @param endpoint - The API endpoint whose query parameters are to be resolved.
-   * @param resolvedData - The object to update with resolved query parameters.
+   * @param options - Execution options, including the number of correction attempts.
+   * @param ai - Collects the model calls and resolution attempts made.
+   * @param confidence - Receives the confidence of each resolved query parameter.
+   * @param model - (Optional) Model or deployment to use instead of the endpoint's.
+   * @returns The validated AI-generated query parameter values.
    * @throws Error if the AI response is not valid JSON or fails schema validation.
    */
-  private async resolveQueryParameters(endpoint: ApiEndpoint, resolvedData: any): Promise<void> {
-    const connectionContext = this.gatherConnectionContext(endpoint);
-
-    // Load and compile Handlebars template
-    const templatePath = path.join(__dirname, 'prompt-templates', 'query-parameters-prompt.hbs');
-    const templateSource = fs.readFileSync(templatePath, 'utf8');
-    const template = Handlebars.compile(templateSource);
+  private async resolveQueryParameters(
+    endpoint: ApiEndpoint,
+    options: ExecutionOptions,
+    ai: AiExecutionDetails,
+    confidence: Record<string, FieldConfidence>,
+    model?: string
+  ): Promise<Record<string, any>> {
+    const connectionContext = this.gatherConnectionContext(endpoint, options);
 
     // Prepare context for template
     const context = {
       queryParamsSchema: JSON.stringify(endpoint.queryParams, null, 2),
       connectionContextSummary: connectionContext.contextSummary,
       hasConnections: connectionContext.hasConnections,
-      connectionData: connectionContext.connectionData.map(conn => ({
-        sourceEndpoint: conn.sourceEndpoint,
-        mapping: conn.mapping,
-        responseData: JSON.stringify(conn.responseData, null, 2)
-      })),
+      connectionData: this.formatConnectionData(endpoint, connectionContext, options),
       naturalLanguageInput: endpoint.naturalLanguageInput
     };
 
-    const prompt = template(context);
+    const prompt = this.renderPrompt('query', endpoint, context);
 
     try {
-      const response = await this.aoai.chat(prompt, "gpt-4.1");
-      const cleanResponse = this.cleanAiJsonResponse(response);
-      const aiResolvedParams = JSON.parse(cleanResponse);
-
-      // Validate against schema before using
-      this.validateParameterSchema(aiResolvedParams, endpoint.queryParams, 'query');
-
-      // Merge validated AI-resolved params with existing query params
-      Object.keys(endpoint.queryParams).forEach(key => {
-        if (aiResolvedParams.hasOwnProperty(key)) {
-          resolvedData.queryParams[key] = aiResolvedParams[key];
-        }
+      const { value: aiResolvedParams, response } = await this.completeWithRepair(prompt, {
+        responseFormat: this.buildResponseFormat('query_parameters', endpoint.queryParams),
+        purpose: 'query',
+        ai,
+        endpoint,
+        repairAttempts: options.aiRepairAttempts,
+        model
+      }, response => {
+        const parsed = this.parseAiJson(response, endpoint.queryParams, connectionContext.placeholders);
+
+        // Validate against schema before using
+        this.validateParameterSchema(parsed, endpoint.queryParams, 'query');
+        return parsed;
       });
 
       console.log(`AI resolved query params (validated):`, aiResolvedParams);
+      Object.assign(confidence, this.scoreResolvedSection('query', aiResolvedParams, endpoint, connectionContext, response));
       if (connectionContext.hasConnections) {
         console.log(`Used data from ${connectionContext.connectionData.length} connected endpoint(s)`);
       }
+
+      return aiResolvedParams;
     } catch (error: any) {
       if (error instanceof SyntaxError) {
         throw new Error(`AI query parameter response is not valid JSON: ${error.message}`);
@@ -718,23 +1178,27 @@ export class ApiExecutionEngine {
 
   /**
    * Resolves body parameters for the given endpoint using AI, incorporating connection context and schema validation.
-   * Updates the resolvedData.body object with validated AI-generated values.
    *
    * @param endpoint - The API endpoint whose body parameters are to be resolved.
-   * @param resolvedData - The object to update with resolved body parameters.
+   * @param options - Execution options, including the number of correction attempts.
+   * @param ai - Collects the model calls and resolution attempts made.
+   * @param confidence - Receives the confidence of each resolved top-level body field.
+   * @param model - (Optional) Model or deployment to use instead of the endpoint's.
+   * @returns The validated AI-generated body, or undefined for endpoints without a body.
    * @throws Error if the AI response is not valid JSON or fails schema validation.
    */
-  private async resolveBodyParameters(endpoint: ApiEndpoint, resolvedData: any): Promise<void> {
+  private async resolveBodyParameters(
+    endpoint: ApiEndpoint,
+    options: ExecutionOptions,
+    ai: AiExecutionDetails,
+    confidence: Record<string, FieldConfidence>,
+    model?: string
+  ): Promise<any> {
     if (!endpoint.body || endpoint.method === 'GET') {
-      return;
+      return undefined;
     }
 
-    const connectionContext = this.gatherConnectionContext(endpoint);
-
-    // Load and compile Handlebars template
-    const templatePath = path.join(__dirname, 'prompt-templates', 'body-parameters-prompt.hbs');
-    const templateSource = fs.readFileSync(templatePath, 'utf8');
-    const template = Handlebars.compile(templateSource);
+    const connectionContext = this.gatherConnectionContext(endpoint, options);
 
     // Prepare context for template
     const context = {
@@ -742,35 +1206,36 @@ export class ApiExecutionEngine {
       bodySchema: JSON.stringify(endpoint.body.schema || {}, null, 2),
       connectionContextSummary: connectionContext.contextSummary,
       hasConnections: connectionContext.hasConnections,
-      connectionData: connectionContext.connectionData.map(conn => ({
-        sourceEndpoint: conn.sourceEndpoint,
-        mapping: conn.mapping,
-        responseData: JSON.stringify(conn.responseData, null, 2)
-      })),
+      connectionData: this.formatConnectionData(endpoint, connectionContext, options),
       naturalLanguageInput: endpoint.naturalLanguageInput
     };
 
-    const prompt = template(context);
+    const prompt = this.renderPrompt('body', endpoint, context);
 
     try {
-      const response = await this.aoai.chat(prompt, "gpt-4.1");
-      const cleanResponse = this.cleanAiJsonResponse(response);
-      const aiResolvedBody = JSON.parse(cleanResponse);
-
-      // Validate against body schema before using
-      this.validateBodySchema(aiResolvedBody, endpoint.body);
-
-      // Merge validated AI-resolved body with existing body data
-      if (resolvedData.body) {
-        resolvedData.body = { ...resolvedData.body, ...aiResolvedBody };
-      } else {
-        resolvedData.body = aiResolvedBody;
-      }
+      const body = endpoint.body;
+      const { value: aiResolvedBody, response } = await this.completeWithRepair(prompt, {
+        responseFormat: this.buildResponseFormat('request_body', body.schema),
+        purpose: 'body',
+        ai,
+        endpoint,
+        repairAttempts: options.aiRepairAttempts,
+        model
+      }, response => {
+        const parsed = this.parseAiJson(response, body.schema, connectionContext.placeholders);
+
+        // Validate against body schema before using
+        this.validateBodySchema(parsed, body);
+        return parsed;
+      });
 
       console.log(`AI resolved body (validated):`, aiResolvedBody);
+      Object.assign(confidence, this.scoreResolvedSection('body', aiResolvedBody, endpoint, connectionContext, response));
       if (connectionContext.hasConnections) {
         console.log(`Used data from ${connectionContext.connectionData.length} connected endpoint(s)`);
       }
+
+      return aiResolvedBody;
     } catch (error: any) {
       if (error instanceof SyntaxError) {
         throw new Error(`AI body response is not valid JSON: ${error.message}`);
@@ -783,163 +1248,854 @@ export class ApiExecutionEngine {
   }
 
   /**
-   * Cleans an AI-generated JSON response string by removing code block markers and extracting the JSON object or array.
-   * Throws an error if a JSON structure cannot be extracted.
+   * Resolves path parameters, query parameters and the body of an endpoint with a single AI call.
+   * The connection context is sent once, and the structured response holds one section per part of the request
+   * (`path`, `query`, `body`), each validated with the same schema checks as the separate resolvers.
    *
-   * @param response - The raw AI response string.
-   * @returns The cleaned JSON string.
-   * @throws Error if the response does not contain valid JSON.
+   * @param endpoint - The API endpoint whose parameters are to be resolved.
+   * @param options - Execution options, including the number of correction attempts.
+   * @param ai - Collects the model calls and resolution attempts made.
+   * @param model - (Optional) Model or deployment to use instead of the endpoint's.
+   * @returns The validated AI-generated values of every section the endpoint defines.
+   * @throws Error if the AI response is not valid JSON or any section fails schema validation.
    */
-  private cleanAiJsonResponse(response: string): string {
-    let cleaned = response.trim()
-      .replace(/```json\n?/g, '')
-      .replace(/```\n?/g, '')
-      .trim();
+  private async resolveCombinedParameters(
+    endpoint: ApiEndpoint,
+    options: ExecutionOptions,
+    ai: AiExecutionDetails,
+    model?: string
+  ): Promise<AiResolution> {
+    const connectionContext = this.gatherConnectionContext(endpoint, options);
+    const sections = this.getCombinedSections(endpoint);
 
-    // Try to extract JSON object first (most common case)
-    const objectMatch = cleaned.match(/^[^{]*({.*})[^}]*$/s);
-    if (objectMatch) {
-      if (!objectMatch[1]) {
-        throw new Error(`AI body response is not valid JSON: ${response}`);
-      }
+    // Prepare context for template
+    const context = {
+      httpMethod: endpoint.method,
+      hasPathParams: sections.includes('path'),
+      hasQueryParams: sections.includes('query'),
+      hasBody: sections.includes('body'),
+      pathParamsSchema: JSON.stringify(endpoint.pathParams, null, 2),
+      queryParamsSchema: JSON.stringify(endpoint.queryParams, null, 2),
+      bodySchema: JSON.stringify(endpoint.body?.schema || {}, null, 2),
+      sections: sections.map(section => `\`${section}\``).join(', '),
+      responseExample: `{${sections.map(section => `"${section}": {...}`).join(', ')}, "confidence": [{"field": "${sections[0]}.<name>", "score": 0.9}]}`,
+      connectionContextSummary: connectionContext.contextSummary,
+      hasConnections: connectionContext.hasConnections,
+      connectionData: this.formatConnectionData(endpoint, connectionContext, options),
+      naturalLanguageInput: endpoint.naturalLanguageInput
+    };
 
-      return objectMatch[1];
-    }
+    const prompt = this.renderPrompt('combined', endpoint, context);
+
+    try {
+      const { value: { resolution, selfReport }, response } = await this.completeWithRepair(prompt, {
+        responseFormat: this.buildCombinedResponseFormat(endpoint, sections),
+        purpose: 'combined',
+        ai,
+        endpoint,
+        repairAttempts: options.aiRepairAttempts,
+        model
+      }, response => this.parseCombinedResolution(response, endpoint, sections, connectionContext.placeholders));
+
+      resolution.confidence = {
+        ...this.scoreResolvedSection('path', resolution.pathParams, endpoint, connectionContext, response, selfReport),
+        ...this.scoreResolvedSection('query', resolution.queryParams, endpoint, connectionContext, response, selfReport),
+        ...this.scoreResolvedSection('body', resolution.body, endpoint, connectionContext, response, selfReport)
+      };
 
-    // If no object found, try to extract JSON array
-    const arrayMatch = cleaned.match(/^[^[]*(\[.*\])[^]]*$/s);
-    if (arrayMatch) {
-      if (!arrayMatch[1]) {
-        throw new Error(`AI body response is not valid JSON: ${response}`);
+      if (resolution.pathParams) {
+        console.log(`AI resolved path params (validated):`, resolution.pathParams);
+      }
+      if (resolution.queryParams) {
+        console.log(`AI resolved query params (validated):`, resolution.queryParams);
+      }
+      if (resolution.body !== undefined) {
+        console.log(`AI resolved body (validated):`, resolution.body);
       }
 
-      return arrayMatch[1];
-    }
+      if (connectionContext.hasConnections) {
+        console.log(`Used data from ${connectionContext.connectionData.length} connected endpoint(s)`);
+      }
 
-    // Return as-is if no JSON structure found
-    return cleaned;
+      return resolution;
+    } catch (error: any) {
+      if (error instanceof SyntaxError) {
+        throw new Error(`AI combined parameter response is not valid JSON: ${error.message}`);
+      }
+      if (/AI (path|query|body|combined) response/.test(error.message)) {
+        throw error; // Re-throw validation errors
+      }
+      throw new Error(`AI combined parameter resolution failed: ${error.message}`);
+    }
   }
 
-
   /**
-   * Calls the AI model with the provided prompt and context type, handling retries and response validation.
-   * Cleans and parses the AI response as JSON, and validates the structure based on the context type.
+   * Parses a combined AI response and validates each of its sections against the endpoint's definitions.
    *
-   * @param prompt - The prompt string to send to the AI model.
-   * @param contextType - The type of context for the parameters ('path', 'query', or 'body').
-   * @param retries - The number of retry attempts in case of failure (default: 2).
-   * @returns The parsed and validated AI response as an object, or an empty object on repeated failure.
+   * @param response - The raw completion text.
+   * @param endpoint - The API endpoint being resolved.
+   * @param sections - The sections the response must contain.
+   * @param placeholders - Redacted values by placeholder, substituted back into the response.
+   * @returns The validated values of every section, and the model's self-reported confidence by field key.
+   * @throws SyntaxError if the completion is not valid JSON, or Error if a section fails schema validation.
    */
-  private async callAiWithContext(
-    prompt: string,
-    contextType: 'path' | 'query' | 'body',
-    retries: number = 2
-  ): Promise<any> {
-    for (let attempt = 0; attempt <= retries; attempt++) {
-      try {
-        const response = await this.aoai.chat(prompt, "gpt-4.1");
-
-        // Clean response and attempt to parse JSON
-        const cleanResponse = response.trim()
-          .replace(/```json\n?/g, '')
-          .replace(/```\n?/g, '')
-          .replace(/^[^{]*({.*})[^}]*$/s, '$1'); // Extract JSON object
+  private parseCombinedResolution(
+    response: string,
+    endpoint: ApiEndpoint,
+    sections: Array<'path' | 'query' | 'body'>,
+    placeholders: Map<string, any>
+  ): { resolution: AiResolution; selfReport: Record<string, number> } {
+    const aiResolved = this.parseAiJson(response, undefined, placeholders);
 
-        const parsedResponse = JSON.parse(cleanResponse);
+    if (!aiResolved || typeof aiResolved !== 'object' || Array.isArray(aiResolved)) {
+      throw new Error('AI combined response must be a JSON object with path, query and body sections');
+    }
 
-        // Validate response structure based on context
-        if (this.validateAiResponse(parsedResponse, contextType)) {
-          return parsedResponse;
-        } else {
-          throw new Error(`Invalid ${contextType} response structure`);
-        }
+    const resolution: AiResolution = {};
 
-      } catch (error: any) {
-        console.warn(`⚠️ AI ${contextType} resolution attempt ${attempt + 1} failed:`, error);
+    if (sections.includes('path')) {
+      const aiResolvedParams = JsonSchemaBuilder.removeNullOptionals(aiResolved.path ?? {}, endpoint.pathParams);
+      this.validateParameterSchema(aiResolvedParams, endpoint.pathParams, 'path');
+      resolution.pathParams = aiResolvedParams;
+    }
 
-        if (attempt === retries) {
-          return {}; // Return empty object on final failure
-        }
+    if (sections.includes('query')) {
+      const aiResolvedParams = JsonSchemaBuilder.removeNullOptionals(aiResolved.query ?? {}, endpoint.queryParams);
+      this.validateParameterSchema(aiResolvedParams, endpoint.queryParams, 'query');
+      resolution.queryParams = aiResolvedParams;
+    }
 
-        // Wait before retry
-        await this.sleep(1000 * (attempt + 1));
-      }
+    if (sections.includes('body') && endpoint.body) {
+      const aiResolvedBody = endpoint.body.schema
+        ? JsonSchemaBuilder.removeNullOptionals(aiResolved.body ?? {}, endpoint.body.schema)
+        : aiResolved.body;
+      this.validateBodySchema(aiResolvedBody, endpoint.body);
+      resolution.body = aiResolvedBody;
     }
 
-    return {};
+    return { resolution, selfReport: ConfidenceScoring.parseSelfReport(aiResolved.confidence) };
   }
 
   /**
-   * Validates the structure of the AI response based on the context type.
+   * Scores the fields of a resolved section from the model's self-report, the logprobs of the completion and the
+   * connection data and natural language input the values should be traceable to.
    *
-   * @param response - The AI response object to validate.
-   * @param contextType - The type of context ('path', 'query', or 'body').
-   * @returns True if the response structure is valid for the given context, false otherwise.
+   * @param section - The request section.
+   * @param values - The validated values of the section, if resolved.
+   * @param endpoint - The API endpoint being resolved.
+   * @param connectionContext - The connection context the prompt was built from.
+   * @param response - (Optional) The completion the values were parsed from; absent for cached resolutions.
+   * @param selfReport - (Optional) Self-reported confidence by field key (combined mode).
+   * @returns Confidence per field key.
    */
-  private validateAiResponse(response: any, contextType: 'path' | 'query' | 'body'): boolean {
-    if (!response || typeof response !== 'object') {
-      return false;
-    }
-
-    switch (contextType) {
-      case 'path':
-      case 'query':
-        // Should be a flat object with simple values
-        return Object.values(response).every(value =>
-          typeof value === 'string' ||
-          typeof value === 'number' ||
-          typeof value === 'boolean'
-        );
-
-      case 'body':
-        // Can be any valid JSON structure
-        return true;
+  private scoreResolvedSection(
+    section: 'path' | 'query' | 'body',
+    values: Record<string, any> | undefined,
+    endpoint: ApiEndpoint,
+    connectionContext: { connectionData: Array<{ responseData: any }>; placeholders: Map<string, any> },
+    response?: LlmResponse,
+    selfReport?: Record<string, number>
+  ): Record<string, FieldConfidence> {
+    return ConfidenceScoring.scoreSection(section, values, {
+      connectionData: connectionContext.connectionData.map(conn => Redaction.restore(conn.responseData, connectionContext.placeholders)),
+      ...(endpoint.naturalLanguageInput ? { naturalLanguageInput: endpoint.naturalLanguageInput } : {}),
+      ...(response ? { content: response.content } : {}),
+      ...(response?.logprobs ? { logprobs: response.logprobs } : {}),
+      ...(selfReport ? { selfReport, contentPrefix: [section] } : {})
+    });
+  }
 
-      default:
-        return false;
-    }
+  /**
+   * Lists the request sections resolved by combined AI resolution for an endpoint.
+   *
+   * @param endpoint - The API endpoint.
+   * @returns The sections with definitions: 'path', 'query' and/or 'body' (non-GET only).
+   */
+  private getCombinedSections(endpoint: ApiEndpoint): Array<'path' | 'query' | 'body'> {
+    const sections: Array<'path' | 'query' | 'body'> = [];
+    if (Object.keys(endpoint.pathParams).length > 0) sections.push('path');
+    if (Object.keys(endpoint.queryParams).length > 0) sections.push('query');
+    if (endpoint.body && endpoint.method !== 'GET') sections.push('body');
+    return sections;
   }
 
   /**
-   * Handles comprehensive AI resolution for an endpoint, including path, query, and body parameters.
-   * Validates connection availability and processes each parameter type as needed.
+   * Builds the structured output constraint for combined resolution: an object with one schema per section.
+   * The schema is strict only when every section's definitions allow it; a body without schema is a free-form object.
    *
-   * @param endpoint - The API endpoint to resolve parameters for.
-   * @param resolvedData - The current resolved data for the endpoint.
+   * @param endpoint - The API endpoint.
+   * @param sections - The sections to include.
+   * @param includeConfidence - Whether the self-reported `confidence` list is required (default: true).
+   * @returns The response format to request from the provider.
    */
-  private async processAiResolution(endpoint: ApiEndpoint, resolvedData: any): Promise<void> {
-    const hasPathParams = Object.keys(endpoint.pathParams).length > 0;
-    const hasQueryParams = Object.keys(endpoint.queryParams).length > 0;
-    const hasBody = endpoint.body && endpoint.method !== 'GET';
+  private buildCombinedResponseFormat(
+    endpoint: ApiEndpoint,
+    sections: Array<'path' | 'query' | 'body'>,
+    includeConfidence: boolean = true
+  ): LlmResponseFormat {
+    const definitions: Partial<Record<'path' | 'query' | 'body', Record<string, ParameterDefinition> | undefined>> = {
+      path: endpoint.pathParams,
+      query: endpoint.queryParams,
+      body: endpoint.body?.schema
+    };
 
-    // Validate connection availability
-    const connectionStatus = this.validateConnectionAvailability(endpoint);
+    const strict = sections.every(section => {
+      const sectionDefinitions = definitions[section];
+      return sectionDefinitions !== undefined && JsonSchemaBuilder.isStrictCompatible(sectionDefinitions);
+    });
 
-    if (connectionStatus.warnings.length > 0) {
-      console.warn('🔗 Connection warnings:');
-      connectionStatus.warnings.forEach(warning => console.warn(`  - ${warning}`));
+    const properties: Record<string, any> = {};
+    for (const section of sections) {
+      const sectionDefinitions = definitions[section];
+      properties[section] = sectionDefinitions
+        ? JsonSchemaBuilder.fromParameters(sectionDefinitions, strict)
+        : { type: 'object' };
     }
 
-    console.log(`🔗 Connection status for ${endpoint.id}:`);
-    console.log(`  - Available: ${connectionStatus.availableConnections.length}`);
-    console.log(`  - Missing: ${connectionStatus.missingConnections.length}`);
+    // Self-reported confidence per returned field, e.g. [{ "field": "path.id", "score": 0.9 }]
+    if (includeConfidence) {
+      properties['confidence'] = {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            field: { type: 'string' },
+            score: { type: 'number' }
+          },
+          required: ['field', 'score'],
+          additionalProperties: false
+        }
+      };
+    }
 
-    // Process path parameters with connection context
-    if (hasPathParams) {
-      await this.resolvePathParameters(endpoint, resolvedData);
+    return {
+      type: 'json_schema',
+      name: 'endpoint_parameters',
+      schema: {
+        type: 'object',
+        properties,
+        required: includeConfidence ? [...sections, 'confidence'] : sections,
+        additionalProperties: false
+      },
+      strict
+    };
+  }
+
+  /**
+   * Sends a single-message prompt to the configured LLM provider and returns the completion.
+   * When `ai` is given, the call's model, latency, token usage and estimated cost are recorded on it.
+   *
+   * @param prompt - The rendered prompt to send as the user message.
+   * @param options - Optional settings.
+   * @param options.responseFormat - Structured output constraint for the completion.
+   * @param options.purpose - What the call is for, recorded with the call (default: 'prompt').
+   * @param options.ai - Collects the call record.
+   * @param options.endpoint - The endpoint the call is for; its LLM settings override the engine defaults.
+   * @param options.history - Earlier messages of the conversation, sent before the prompt.
+   * @param options.model - Model or deployment to use instead of the endpoint's.
+   * @returns The completion, with token logprobs when the provider supports them.
+   */
+  private async completePrompt(
+    prompt: string,
+    options: {
+      responseFormat?: LlmResponseFormat;
+      purpose?: string;
+      ai?: AiExecutionDetails;
+      endpoint?: ApiEndpoint | undefined;
+      history?: LlmMessage[];
+      model?: string | undefined;
+    } = {}
+  ): Promise<LlmResponse> {
+    const { history, ...rest } = options;
+    // Token logprobs feed the confidence score of resolved fields
+    return this.completeMessages([...(history ?? []), { role: 'user', content: prompt }], { ...rest, logprobs: true });
+  }
+
+  /**
+   * Sends a conversation to the configured LLM provider with the engine's LLM settings and returns the completion.
+   * When `ai` is given, the call's model, latency, token usage and estimated cost are recorded on it, so that
+   * components driving the model themselves (such as `ApiAgent`) are accounted like the engine's own calls.
+   *
+   * @param messages - The conversation.
+   * @param options - Optional settings.
+   * @param options.responseFormat - Structured output constraint for the completion.
+   * @param options.tools - Tools the model may call.
+   * @param options.purpose - What the call is for, recorded with the call (default: 'prompt').
+   * @param options.ai - Collects the call record.
+   * @param options.endpoint - The endpoint the call is for; its LLM settings override the engine defaults.
+   * @param options.model - Model or deployment to use instead of the endpoint's.
+   * @param options.logprobs - Whether to ask for token logprobs when the provider supports them (default: false).
+   * @returns The completion.
+   * @throws {Error} If no LLM provider is configured, or the provider call fails.
+   */
+  public async completeMessages(
+    messages: LlmMessage[],
+    options: {
+      responseFormat?: LlmResponseFormat;
+      tools?: LlmToolDefinition[];
+      purpose?: string;
+      ai?: AiExecutionDetails;
+      endpoint?: ApiEndpoint | undefined;
+      model?: string | undefined;
+      logprobs?: boolean;
+    } = {}
+  ): Promise<LlmResponse> {
+    if (!this.llm) {
+      throw new Error(`No LLM provider is configured for ${options.purpose ?? 'prompt'} completion`);
     }
 
-    // Process query parameters with connection context
-    if (hasQueryParams) {
-      await this.resolveQueryParameters(endpoint, resolvedData);
+    const startTime = Date.now();
+    const response = await this.llm.complete({
+      messages,
+      ...this.getLlmRequestSettings(options.endpoint),
+      ...(options.model !== undefined ? { model: options.model } : {}),
+      ...(options.logprobs && this.llm.supportsLogprobs ? { logprobs: true } : {}),
+      ...(options.responseFormat ? { responseFormat: options.responseFormat } : {}),
+      ...(options.tools ? { tools: options.tools } : {})
+    });
+
+    const cost = UsageAccounting.estimateCost(response.usage, response.model, this.modelPrices);
+    options.ai?.calls.push({
+      purpose: options.purpose ?? 'prompt',
+      model: response.model,
+      latencyMs: Date.now() - startTime,
+      ...(response.usage ? { usage: response.usage } : {}),
+      ...(cost !== undefined ? { cost } : {})
+    });
+
+    return response;
+  }
+
+  /**
+   * Builds the structured output constraint for a set of parameter definitions.
+   * Uses a strict JSON Schema when the definitions allow it, and JSON mode when no schema is defined.
+   *
+   * @param name - Identifier of the schema (e.g. 'path_parameters').
+   * @param definitions - The parameter definitions the response must match, if any.
+   * @returns The response format to request from the provider.
+   */
+  private buildResponseFormat(
+    name: string,
+    definitions: Record<string, ParameterDefinition> | undefined
+  ): LlmResponseFormat {
+    if (!definitions) {
+      return { type: 'json_object' };
     }
 
-    // Process body parameters with connection context (only for non-GET methods)
-    if (hasBody) {
-      await this.resolveBodyParameters(endpoint, resolvedData);
+    const strict = JsonSchemaBuilder.isStrictCompatible(definitions);
+    return {
+      type: 'json_schema',
+      name,
+      schema: JsonSchemaBuilder.fromParameters(definitions, strict),
+      strict
+    };
+  }
+
+  /**
+   * Parses an AI completion as JSON.
+   * Completions from providers with structured output are parsed directly; for other providers the
+   * response is first cleaned with {@link AiJsonUtils.clean} to strip code fences and surrounding text.
+   * Null values emitted for optional fields of strict schemas are removed.
+   *
+   * @param response - The raw completion text.
+   * @param definitions - The parameter definitions the response was constrained to, if any.
+   * @param placeholders - Redacted values by placeholder; placeholders in the response are replaced with them.
+   * @returns The parsed JSON value.
+   * @throws SyntaxError if the completion is not valid JSON.
+   */
+  private parseAiJson(
+    response: string,
+    definitions?: Record<string, ParameterDefinition>,
+    placeholders?: Map<string, any>
+  ): any {
+    const parsed = AiJsonUtils.parse(response, this.llm?.supportsStructuredOutput ?? false);
+    const restored = placeholders ? Redaction.restore(parsed, placeholders) : parsed;
+
+    return definitions ? JsonSchemaBuilder.removeNullOptionals(restored, definitions) : restored;
+  }
+
+  /**
+   * Sends a resolution prompt and parses the completion, asking the model to correct invalid responses.
+   * When parsing or schema validation rejects a response, the original prompt, the rejected response and a
+   * correction request listing the validation errors are sent back, up to `repairAttempts` times. Every attempt
+   * is recorded on `ai.attempts`.
+   *
+   * @param prompt - The rendered resolution prompt.
+   * @param options - Call settings.
+   * @param options.responseFormat - Structured output constraint for the completions.
+   * @param options.purpose - The part of the request being resolved ('combined', 'path', 'query' or 'body'), or
+   *   'extraction' for extraction steps.
+   * @param options.ai - Collects the model calls and resolution attempts.
+   * @param options.endpoint - The endpoint being resolved; undefined for extraction steps.
+   * @param options.repairAttempts - How many correction requests may follow the first response (default: 2).
+   * @param options.model - (Optional) Model or deployment to use instead of the endpoint's.
+   * @param parse - Parses and validates a completion, throwing a SyntaxError or an 'AI ... response' error when invalid.
+   * @returns The parsed value of the first valid response, and the response itself.
+   * @throws The error of the last rejected response once the correction attempts are used up; errors of the model
+   *   call itself are not corrected and propagate immediately.
+   */
+  private async completeWithRepair<T>(
+    prompt: string,
+    options: {
+      responseFormat: LlmResponseFormat;
+      purpose: 'combined' | 'path' | 'query' | 'body' | 'extraction';
+      ai: AiExecutionDetails;
+      endpoint: ApiEndpoint | undefined;
+      repairAttempts: number | undefined;
+      model?: string | undefined;
+    },
+    parse: (response: string) => T
+  ): Promise<{ value: T; response: LlmResponse }> {
+    const repairAttempts = options.repairAttempts ?? 2;
+    const history: LlmMessage[] = [];
+    let message = prompt;
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await this.completePrompt(message, {
+        responseFormat: options.responseFormat,
+        purpose: options.purpose,
+        ai: options.ai,
+        endpoint: options.endpoint,
+        history,
+        model: options.model
+      });
+
+      try {
+        const value = parse(response.content);
+        options.ai.attempts.push({ purpose: options.purpose, attempt, valid: true });
+        if (attempt > 1) {
+          console.log(`🔧 AI ${options.purpose} response corrected after ${attempt - 1} repair attempt(s)`);
+        }
+        return { value, response };
+      } catch (error: any) {
+        const isInvalidResponse = error instanceof SyntaxError || /AI (path|query|body|combined|extraction) response/.test(error.message);
+        if (!isInvalidResponse) {
+          throw error;
+        }
+
+        const errors = error instanceof SyntaxError ? `Response is not valid JSON: ${error.message}` : error.message;
+        options.ai.attempts.push({ purpose: options.purpose, attempt, valid: false, error: errors });
+
+        if (attempt > repairAttempts) {
+          throw error;
+        }
+
+        console.warn(`⚠️ AI ${options.purpose} response rejected (attempt ${attempt}), requesting a correction`);
+
+        history.push({ role: 'user', content: message }, { role: 'assistant', content: response.content });
+        message = this.buildRepairPrompt(options.purpose, errors, options.endpoint);
+      }
     }
   }
 
+  /**
+   * Renders the correction request sent after an AI response was rejected.
+   *
+   * @param purpose - The part of the request being resolved ('combined', 'path', 'query' or 'body'), or 'extraction'.
+   * @param errors - The validation errors of the rejected response.
+   * @param endpoint - The endpoint being resolved; its template overrides apply. Undefined for extraction steps.
+   * @returns The rendered prompt.
+   */
+  private buildRepairPrompt(
+    purpose: 'combined' | 'path' | 'query' | 'body' | 'extraction',
+    errors: string,
+    endpoint: ApiEndpoint | undefined
+  ): string {
+    const sectionNames = {
+      combined: 'path parameters, query parameters and body',
+      path: 'path parameters',
+      query: 'query parameters',
+      body: 'body',
+      extraction: 'extracted value'
+    };
+
+    return this.renderPrompt('repair', endpoint, { section: sectionNames[purpose], errors });
+  }
+
+  /**
+   * Returns the name of the template used for a prompt: the endpoint's override, else the engine's, else the
+   * built-in template.
+   *
+   * @param kind - The prompt ('path', 'query', 'body', 'combined', 'repair', 'sourceField', 'recovery' or 'extraction').
+   * @param endpoint - The endpoint being resolved; undefined for extraction steps, which use the engine's templates.
+   * @returns The template name.
+   */
+  private getTemplateName(kind: keyof PromptTemplateOverrides, endpoint: ApiEndpoint | undefined): string {
+    return endpoint?.promptTemplates?.[kind] ?? this.promptTemplates[kind] ?? ApiExecutionEngine.DEFAULT_TEMPLATES[kind];
+  }
+
+  /**
+   * Renders a prompt with the template selected for the endpoint.
+   *
+   * @param kind - The prompt ('path', 'query', 'body', 'combined', 'repair', 'sourceField', 'recovery' or 'extraction').
+   * @param endpoint - The endpoint being resolved; undefined for extraction steps.
+   * @param context - The template variables.
+   * @returns The rendered prompt.
+   * @throws Error if the selected template is not registered.
+   */
+  private renderPrompt(kind: keyof PromptTemplateOverrides, endpoint: ApiEndpoint | undefined, context: object): string {
+    return this.templates.render(this.getTemplateName(kind, endpoint), context);
+  }
+
+  /**
+   * Handles comprehensive AI resolution for an endpoint, including path, query, and body parameters.
+   * Validates connection availability, then resolves all sections in one model call ('combined' mode, default)
+   * or each parameter type with its own prompt ('separate' mode).
+   *
+   * @param endpoint - The API endpoint to resolve parameters for.
+   * @param resolvedData - The current resolved data for the endpoint.
+   * @param options - Execution options, including the AI resolution mode and the number of correction attempts.
+   * @param ai - Collects the model calls and resolution attempts made.
+   */
+  private async processAiResolution(
+    endpoint: ApiEndpoint,
+    resolvedData: any,
+    options: ExecutionOptions,
+    ai: AiExecutionDetails
+  ): Promise<void> {
+    const hasPathParams = Object.keys(endpoint.pathParams).length > 0;
+    const hasQueryParams = Object.keys(endpoint.queryParams).length > 0;
+    const hasBody = endpoint.body && endpoint.method !== 'GET';
+
+    // Validate connection availability
+    const connectionStatus = this.validateConnectionAvailability(endpoint);
+
+    if (connectionStatus.warnings.length > 0) {
+      console.warn('🔗 Connection warnings:');
+      connectionStatus.warnings.forEach(warning => console.warn(`  - ${warning}`));
+    }
+
+    console.log(`🔗 Connection status for ${endpoint.id}:`);
+    console.log(`  - Available: ${connectionStatus.availableConnections.length}`);
+    console.log(`  - Missing: ${connectionStatus.missingConnections.length}`);
+
+    if (!hasPathParams && !hasQueryParams && !hasBody) {
+      return;
+    }
+
+    // High-risk endpoints are always resolved by the models, so that every request is checked for consensus
+    const consensus = this.getConsensusOptions(endpoint, options);
+
+    const cacheKey = this.resolutionCache && !consensus ? this.buildResolutionCacheKey(endpoint, options) : undefined;
+    const cached = cacheKey ? await this.resolutionCache!.get(cacheKey) : undefined;
+    let resolution: AiResolution;
+
+    if (cached) {
+      console.log(`💾 AI resolution cache hit for ${endpoint.id}`);
+      // Cached values hold placeholders instead of redacted values; restore this run's values
+      resolution = options.redaction
+        ? Redaction.restore(cached.resolution, this.gatherConnectionContext(endpoint, options).placeholders)
+        : cached.resolution;
+    } else if (consensus) {
+      resolution = await this.resolveWithConsensus(endpoint, options, ai, consensus);
+    } else {
+      resolution = await this.resolveParameters(endpoint, options, ai);
+    }
+
+    if (!resolution.confidence) {
+      // Entries cached before confidence scoring can only be scored against the data they should come from
+      const connectionContext = this.gatherConnectionContext(endpoint, options);
+      resolution.confidence = {
+        ...this.scoreResolvedSection('path', resolution.pathParams, endpoint, connectionContext),
+        ...this.scoreResolvedSection('query', resolution.queryParams, endpoint, connectionContext),
+        ...this.scoreResolvedSection('body', resolution.body, endpoint, connectionContext)
+      };
+    }
+
+    this.checkPromptSafety(endpoint, resolution, options, ai);
+
+    if (cacheKey && !cached) {
+      // Store placeholders rather than redacted values, so secrets stay out of the cache
+      const { confidence, ...values } = resolution;
+      await this.resolutionCache!.set(cacheKey, {
+        endpointId: endpoint.id,
+        model: this.getModelId(endpoint),
+        resolution: options.redaction
+          ? { ...Redaction.conceal(values, this.gatherConnectionContext(endpoint, options).placeholders), ...(confidence ? { confidence } : {}) }
+          : resolution
+      });
+    }
+
+    if (options.approval) {
+      resolution = await this.requestApproval(endpoint, resolution, options.approval, ai);
+    }
+
+    this.applyAiResolution(endpoint, resolvedData, resolution);
+
+    // Record the resolution on the endpoint so model calls, cache hits and confidence are visible. The values go to
+    // lastResolution, which the next run does not read back as input
+    const overallConfidence = ConfidenceScoring.overall(resolution.confidence ?? {});
+    endpoint.updateAiMapping({
+      input: endpoint.naturalLanguageInput ?? '',
+      lastResolution: {
+        ...(resolution.pathParams ? { pathParams: resolution.pathParams } : {}),
+        ...(resolution.queryParams ? { queryParams: resolution.queryParams } : {}),
+        ...(resolution.body !== undefined ? { body: resolution.body } : {})
+      },
+      ...(overallConfidence !== undefined ? { confidence: overallConfidence } : {}),
+      fieldConfidence: resolution.confidence ?? {},
+      source: cached ? 'cache' : 'model',
+      ...(cacheKey ? { cacheKey } : {})
+    });
+  }
+
+  /**
+   * Applies the prompt-injection checks to a resolution: records the connection data strings that were stripped and
+   * the resolved values that trace back neither to the natural language input, nor to connection data, nor to values
+   * allowed by the schema. Findings are logged and recorded on `ai.promptSafety`.
+   *
+   * @param endpoint - The API endpoint being resolved.
+   * @param resolution - The AI-resolved values.
+   * @param options - Execution options, including the prompt safety settings.
+   * @param ai - Receives the findings.
+   * @throws Error if values are untraceable and `promptSafety.untraceable` is 'reject'.
+   */
+  private checkPromptSafety(
+    endpoint: ApiEndpoint,
+    resolution: AiResolution,
+    options: ExecutionOptions,
+    ai: AiExecutionDetails
+  ): void {
+    const connectionContext = this.gatherConnectionContext(endpoint, options);
+    const sources = {
+      connectionData: connectionContext.connectionData.map(conn => Redaction.restore(conn.responseData, connectionContext.placeholders)),
+      knownValues: this.collectSchemaValues(endpoint),
+      ...(endpoint.naturalLanguageInput ? { naturalLanguageInput: endpoint.naturalLanguageInput } : {})
+    };
+
+    const untraceableFields = [
+      ...PromptSanitizer.findUntraceable('path', resolution.pathParams, sources),
+      ...PromptSanitizer.findUntraceable('query', resolution.queryParams, sources),
+      ...PromptSanitizer.findUntraceable('body', resolution.body, sources)
+    ];
+
+    if (connectionContext.strippedFields.length === 0 && untraceableFields.length === 0) {
+      return;
+    }
+
+    ai.promptSafety = { strippedFields: connectionContext.strippedFields, untraceableFields };
+
+    if (connectionContext.strippedFields.length > 0) {
+      console.warn(`🛡️ Removed instruction-like connection data for ${endpoint.id}:`, connectionContext.strippedFields);
+    }
+
+    if (untraceableFields.length > 0) {
+      if (options.promptSafety?.untraceable === 'reject') {
+        throw new Error(
+          `AI resolution for endpoint ${endpoint.id} has values that do not trace back to the input or connection data: ${untraceableFields.join(', ')}`
+        );
+      }
+      console.warn(`⚠️ AI resolved values for ${endpoint.id} that do not trace back to the input or connection data:`, untraceableFields);
+    }
+  }
+
+  /**
+   * Collects the values the schema of an endpoint allows without any input: default values, examples and enum
+   * values of every path, query and body definition.
+   *
+   * @param endpoint - The API endpoint.
+   * @returns The values, in no particular order.
+   */
+  private collectSchemaValues(endpoint: ApiEndpoint): any[] {
+    const values: any[] = [];
+
+    const collect = (definition: ParameterDefinition): void => {
+      if (definition.defaultValue !== undefined) values.push(definition.defaultValue);
+      values.push(...(definition.examples ?? []), ...(definition.validation?.enum ?? []));
+      if (definition.items) collect(definition.items);
+      Object.values(definition.properties ?? {}).forEach(collect);
+    };
+
+    [endpoint.pathParams, endpoint.queryParams, endpoint.body?.schema ?? {}]
+      .forEach(definitions => Object.values(definitions).forEach(collect));
+
+    return values;
+  }
+
+  /**
+   * Holds a resolution at the approval gate when any field scores below the threshold, and waits for the handler.
+   * Approved resolutions are returned unchanged, or with the sections the reviewer corrected (validated like AI
+   * values, and marked as approved with full confidence). The outcome is recorded on `ai.approval`.
+   *
+   * @param endpoint - The API endpoint about to be called.
+   * @param resolution - The AI-resolved values and their confidence.
+   * @param approval - The approval handler and threshold.
+   * @param ai - Receives the approval record.
+   * @returns The resolution to apply.
+   * @throws Error if the reviewer rejects the request, or a corrected section fails schema validation.
+   */
+  private async requestApproval(
+    endpoint: ApiEndpoint,
+    resolution: AiResolution,
+    approval: NonNullable<ExecutionOptions['approval']>,
+    ai: AiExecutionDetails
+  ): Promise<AiResolution> {
+    const threshold = approval.threshold ?? 0.7;
+    const confidence = resolution.confidence ?? {};
+    const lowConfidenceFields = Object.entries(confidence)
+      .filter(([, field]) => field.score < threshold)
+      .map(([field]) => field);
+
+    if (lowConfidenceFields.length === 0) {
+      return resolution;
+    }
+
+    console.log(`⏸️ Waiting for approval of ${endpoint.id}: low confidence in ${lowConfidenceFields.join(', ')}`);
+
+    const decision = await approval.handler.approve({
+      endpointId: endpoint.id,
+      endpointName: endpoint.name,
+      method: endpoint.method,
+      url: endpoint.getFullUrl(resolution.pathParams),
+      resolution,
+      confidence,
+      lowConfidenceFields,
+      threshold
+    });
+
+    const corrected = decision.resolution ?? {};
+    const edited = corrected.pathParams !== undefined || corrected.queryParams !== undefined || corrected.body !== undefined;
+    ai.approval = {
+      threshold,
+      lowConfidenceFields,
+      approved: decision.approved,
+      edited: decision.approved && edited,
+      ...(decision.reason ? { reason: decision.reason } : {})
+    };
+
+    if (!decision.approved) {
+      throw new Error(`Request for endpoint ${endpoint.id} was rejected at the approval gate` +
+        (decision.reason ? `: ${decision.reason}` : ''));
+    }
+
+    console.log(`▶️ Approved ${endpoint.id}${edited ? ' with corrected values' : ''}`);
+
+    // Every value is now confirmed by the reviewer; corrected ones no longer carry the model's signals
+    const approvedConfidence: Record<string, FieldConfidence> = {};
+    for (const [field, entry] of Object.entries(confidence)) {
+      approvedConfidence[field] = { ...entry, approved: true };
+    }
+
+    const result: AiResolution = { ...resolution, confidence: approvedConfidence };
+    if (corrected.pathParams !== undefined) {
+      this.validateParameterSchema(corrected.pathParams, endpoint.pathParams, 'path');
+      result.pathParams = corrected.pathParams;
+      this.markApproved(approvedConfidence, 'path', corrected.pathParams);
+    }
+    if (corrected.queryParams !== undefined) {
+      this.validateParameterSchema(corrected.queryParams, endpoint.queryParams, 'query');
+      result.queryParams = corrected.queryParams;
+      this.markApproved(approvedConfidence, 'query', corrected.queryParams);
+    }
+    if (corrected.body !== undefined && endpoint.body) {
+      this.validateBodySchema(corrected.body, endpoint.body);
+      result.body = corrected.body;
+      this.markApproved(approvedConfidence, 'body', corrected.body);
+    }
+
+    return result;
+  }
+
+  /**
+   * Replaces the confidence of the fields of a section corrected by a reviewer with full, approved confidence.
+   *
+   * @param confidence - Confidence per field key, updated in place.
+   * @param section - The corrected section.
+   * @param values - The corrected values.
+   */
+  private markApproved(confidence: Record<string, FieldConfidence>, section: 'path' | 'query' | 'body', values: any): void {
+    for (const field of Object.keys(confidence)) {
+      if (field.startsWith(`${section}.`)) {
+        delete confidence[field];
+      }
+    }
+    if (values && typeof values === 'object' && !Array.isArray(values)) {
+      for (const name of Object.keys(values)) {
+        confidence[`${section}.${name}`] = { score: 1, approved: true };
+      }
+    }
+  }
+
+  /**
+   * Merges validated AI-resolved values into the resolved request data.
+   * Only parameters defined on the endpoint are taken; the body is merged over existing body data.
+   *
+   * @param endpoint - The API endpoint the values were resolved for.
+   * @param resolvedData - The object to update with the resolved values.
+   * @param resolution - The AI-resolved values.
+   */
+  private applyAiResolution(endpoint: ApiEndpoint, resolvedData: any, resolution: AiResolution): void {
+    if (resolution.pathParams) {
+      Object.keys(endpoint.pathParams).forEach(key => {
+        if (resolution.pathParams!.hasOwnProperty(key)) {
+          resolvedData.pathParams[key] = resolution.pathParams![key];
+        }
+      });
+    }
+
+    if (resolution.queryParams) {
+      Object.keys(endpoint.queryParams).forEach(key => {
+        if (resolution.queryParams!.hasOwnProperty(key)) {
+          resolvedData.queryParams[key] = resolution.queryParams![key];
+        }
+      });
+    }
+
+    if (resolution.body !== undefined) {
+      resolvedData.body = resolvedData.body
+        ? { ...resolvedData.body, ...resolution.body }
+        : resolution.body;
+    }
+  }
+
+  /**
+   * Computes the resolution cache key of an endpoint: a hash of the endpoint schema, the natural language input,
+   * the connection data that would be rendered into the prompt, the model id, and the template overrides, if any.
+   *
+   * @param endpoint - The API endpoint to resolve.
+   * @param options - Execution options, which affect the connection data sent to the model.
+   * @returns The cache key.
+   */
+  private buildResolutionCacheKey(endpoint: ApiEndpoint, options: ExecutionOptions): string {
+    const connectionContext = this.gatherConnectionContext(endpoint, options);
+    const templates: PromptTemplateOverrides = { ...this.promptTemplates, ...endpoint.promptTemplates };
+
+    return CanonicalJson.hash({
+      endpoint: {
+        method: endpoint.method,
+        path: endpoint.path,
+        pathParams: endpoint.pathParams,
+        queryParams: endpoint.queryParams,
+        body: endpoint.body?.schema ?? null
+      },
+      naturalLanguageInput: endpoint.naturalLanguageInput,
+      connectionData: connectionContext.connectionData,
+      model: this.getModelId(endpoint),
+      ...(Object.keys(templates).length > 0 ? { templates } : {})
+    });
+  }
+
+  /**
+   * Identifies the provider and model used for AI resolution of an endpoint, e.g. 'azure-openai/gpt-4.1'.
+   *
+   * @param endpoint - The endpoint being resolved; its LLM settings may select another model.
+   * @returns The model id.
+   */
+  private getModelId(endpoint: ApiEndpoint): string {
+    const model = this.getLlmRequestSettings(endpoint).model ?? this.llm?.defaultModel ?? 'default';
+    return `${this.llm?.name ?? 'none'}/${model}`;
+  }
+
+  /**
+   * Removes cached AI resolutions of an endpoint, or all cached resolutions when no endpoint is given.
+   *
+   * @param endpointId - (Optional) The endpoint whose cached resolutions should be removed.
+   * @returns The number of removed entries (0 when no cache is configured).
+   */
+  public async invalidateResolutionCache(endpointId?: string): Promise<number> {
+    return this.resolutionCache ? this.resolutionCache.invalidate(endpointId) : 0;
+  }
+
   /**
    * Formats connection data for logging, including mappings and available data previews.
    *
@@ -969,20 +2125,270 @@ export class ApiExecutionEngine {
     return output;
   }
 
+  /**
+   * Validates an endpoint and its connections, repairs missing connection source fields, resolves all parameters and
+   * data dependencies, and builds the request configuration (without authentication).
+   *
+   * @param endpoint - The API endpoint to prepare.
+   * @param options - Execution options.
+   * @param ai - Collects the model calls made.
+   * @param unresolvedFields - Receives the required fields the rule resolver left without a value.
+   * @returns The resolved data and the request built from it.
+   * @throws {Error} If the endpoint configuration is invalid or parameter resolution fails.
+   */
+  private async prepareRequest(
+    endpoint: ApiEndpoint,
+    options: ExecutionOptions,
+    ai: AiExecutionDetails,
+    unresolvedFields: string[]
+  ): Promise<{ resolvedData: any; request: RequestData }> {
+    // Validate endpoint configuration
+    const validationErrors = endpoint.validate();
+    if (validationErrors.length > 0) {
+      throw new Error(`Endpoint validation failed: ${validationErrors.join(', ')}`);
+    }
+
+    this.validateTypedConnections(endpoint);
+
+    // Let the model repair connections whose source field is missing from the source response
+    await this.resolveSourceFields(endpoint, options, ai);
+
+    // Resolve all parameters and data dependencies
+    const resolvedData = await this.resolveEndpointData(endpoint);
+
+    // Build request configuration
+    const request = await this.buildRequestConfig(endpoint, resolvedData, options, ai, unresolvedFields);
+    return { resolvedData, request };
+  }
+
+  /**
+   * Resolves the parameters of an endpoint with the model, in one combined call or one call per section according
+   * to `options.aiResolutionMode`.
+   *
+   * @param endpoint - The API endpoint to resolve parameters for.
+   * @param options - Execution options, including the AI resolution mode and the number of correction attempts.
+   * @param ai - Collects the model calls and resolution attempts made.
+   * @param model - (Optional) Model or deployment to use instead of the endpoint's.
+   * @returns The validated values of every section the endpoint defines, with their confidence.
+   */
+  private async resolveParameters(
+    endpoint: ApiEndpoint,
+    options: ExecutionOptions,
+    ai: AiExecutionDetails,
+    model?: string
+  ): Promise<AiResolution> {
+    if ((options.aiResolutionMode ?? 'combined') === 'combined') {
+      return this.resolveCombinedParameters(endpoint, options, ai, model);
+    }
+
+    const resolution: AiResolution = { confidence: {} };
+
+    // Process path parameters with connection context
+    if (Object.keys(endpoint.pathParams).length > 0) {
+      resolution.pathParams = await this.resolvePathParameters(endpoint, options, ai, resolution.confidence!, model);
+    }
+
+    // Process query parameters with connection context
+    if (Object.keys(endpoint.queryParams).length > 0) {
+      resolution.queryParams = await this.resolveQueryParameters(endpoint, options, ai, resolution.confidence!, model);
+    }
+
+    // Process body parameters with connection context (only for non-GET methods)
+    if (endpoint.body && endpoint.method !== 'GET') {
+      resolution.body = await this.resolveBodyParameters(endpoint, options, ai, resolution.confidence!, model);
+    }
+
+    return resolution;
+  }
+
+  /**
+   * Returns the consensus settings when they apply to the endpoint's method.
+   *
+   * @param endpoint - The API endpoint.
+   * @param options - Execution options.
+   * @returns The consensus settings, or undefined when the endpoint is not high-risk or consensus is off.
+   */
+  private getConsensusOptions(endpoint: ApiEndpoint, options: ExecutionOptions): ExecutionOptions['consensus'] {
+    return options.consensus && (options.consensus.methods ?? ['PUT', 'DELETE']).includes(endpoint.method)
+      ? options.consensus
+      : undefined;
+  }
+
+  /**
+   * Resolves the parameters of a high-risk endpoint several times independently, with the endpoint's model or with
+   * each of `consensus.models`, and compares the resolutions field by field. The report is recorded on `ai.consensus`.
+   *
+   * @param endpoint - The API endpoint to resolve parameters for.
+   * @param options - Execution options.
+   * @param ai - Collects the model calls, resolution attempts and the consensus report.
+   * @param consensus - The consensus settings.
+   * @returns The agreed resolution (values and confidence of the first sample).
+   * @throws {Error} If the settings cannot produce disagreeing resolutions (fewer than 2 samples or distinct models,
+   *   or samples of one model from a provider that replays completions), any resolution fails, or the resolutions disagree on any field.
+   */
+  private async resolveWithConsensus(
+    endpoint: ApiEndpoint,
+    options: ExecutionOptions,
+    ai: AiExecutionDetails,
+    consensus: ConsensusOptions
+  ): Promise<AiResolution> {
+    // A check that cannot fail is no check: refuse settings under which the resolutions always agree
+    if (consensus.models && consensus.models.length > 0) {
+      if (new Set(consensus.models).size < 2) {
+        throw new Error(`Consensus for ${endpoint.id} requires at least 2 distinct models, got: ${consensus.models.join(', ')}`);
+      }
+    } else if ((consensus.samples ?? 3) < 2) {
+      throw new Error(`Consensus for ${endpoint.id} requires at least 2 samples, got ${consensus.samples}`);
+    } else if (this.llm?.replaysCompletions) {
+      throw new Error(`Consensus for ${endpoint.id} cannot use samples of one model from provider '${this.llm.name}', which replays the same completion; set consensus.models`);
+    }
+
+    const models: Array<string | undefined> = consensus.models && consensus.models.length > 0
+      ? consensus.models
+      : Array.from({ length: consensus.samples ?? 3 }, () => undefined);
+
+    console.log(`🗳️ Resolving ${endpoint.id} ${models.length} time(s) for consensus`);
+
+    const samples: ConsensusSample[] = [];
+    for (const model of models) {
+      const label = model ?? this.getLlmRequestSettings(endpoint).model ?? this.llm?.defaultModel ?? 'default';
+      try {
+        samples.push({ model: label, resolution: await this.resolveParameters(endpoint, options, ai, model) });
+      } catch (error) {
+        samples.push({ model: label, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    // Compare every field any successful sample resolved
+    const resolved = samples.filter(sample => sample.resolution);
+    const flattened = resolved.map(sample => this.flattenResolution(sample.resolution!));
+    const fields = [...new Set(flattened.flatMap(values => [...values.keys()]))];
+    const conflicts: ConsensusConflict[] = fields
+      .filter(field => new Set(flattened.map(values => CanonicalJson.stringify(values.get(field) ?? null))).size > 1)
+      .map(field => ({
+        field,
+        values: resolved.map((sample, index) => ({ model: sample.model, value: flattened[index]!.get(field) }))
+      }));
+
+    const failed = samples.filter(sample => sample.error !== undefined);
+    ai.consensus = { samples, agreed: failed.length === 0 && conflicts.length === 0, conflicts };
+
+    if (failed.length > 0) {
+      throw new Error(`Consensus not reached for ${endpoint.id}: ${failed.length} of ${samples.length} resolution(s) failed`);
+    }
+    if (conflicts.length > 0) {
+      console.warn(`⚠️ Resolutions of ${endpoint.id} disagree on ${conflicts.map(conflict => conflict.field).join(', ')}`);
+      throw new Error(`Consensus not reached for ${endpoint.id}: resolutions disagree on ${conflicts.map(conflict => conflict.field).join(', ')}`);
+    }
+
+    console.log(`🗳️ ${samples.length} resolution(s) of ${endpoint.id} agree`);
+    return resolved[0]!.resolution!;
+  }
+
+  /**
+   * Lists the values of a resolution by field key ('path.id', 'body.address.city'). Objects are listed by their
+   * nested fields, all other values (including arrays) as a whole.
+   *
+   * @param resolution - The resolution.
+   * @returns The values by field key.
+   */
+  private flattenResolution(resolution: AiResolution): Map<string, any> {
+    const values = new Map<string, any>();
+    const walk = (path: string, value: any): void => {
+      if (value !== null && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length > 0) {
+        Object.entries(value).forEach(([name, item]) => walk(`${path}.${name}`, item));
+      } else if (value !== undefined) {
+        values.set(path, value);
+      }
+    };
+
+    if (resolution.pathParams) walk('path', resolution.pathParams);
+    if (resolution.queryParams) walk('query', resolution.queryParams);
+    if (resolution.body !== undefined) walk('body', resolution.body);
+    return values;
+  }
+
+  /**
+   * Resolves the parameters of an endpoint with the rule resolver, for engines without an LLM provider, and records
+   * the resolution on the endpoint.
+   *
+   * @param endpoint - The API endpoint to resolve parameters for.
+   * @param resolvedData - The current resolved data for the endpoint; updated with the resolved values.
+   * @param unresolvedFields - Receives the required fields left without a value (e.g. 'path.id').
+   * @throws {Error} If a required path parameter is unresolved, since the URL cannot be built without it.
+   */
+  private processRuleResolution(endpoint: ApiEndpoint, resolvedData: any, unresolvedFields: string[]): void {
+    const connectionData = endpoint.connections
+      .map(connection => this.context.results.get(connection.sourceNodeId))
+      .filter((result): result is ExecutionResult => !!result && result.success)
+      .map(result => result.responseData.body);
+
+    const { resolution, sources, unresolvedFields: unresolved } = this.ruleResolver.resolve(endpoint, resolvedData, connectionData);
+    unresolvedFields.push(...unresolved);
+
+    if (Object.keys(sources).length > 0) {
+      console.log(`📏 Rule-based resolution for ${endpoint.id}:`, sources);
+    }
+    if (unresolved.length > 0) {
+      console.warn(`⚠️ Unresolved fields of ${endpoint.id}: ${unresolved.join(', ')}`);
+    }
+
+    const unresolvedPath = unresolved.filter(field => field.startsWith('path.'));
+    if (unresolvedPath.length > 0) {
+      throw new Error(`Cannot build the URL of ${endpoint.id} without an LLM provider: unresolved ${unresolvedPath.join(', ')}`);
+    }
+
+    this.applyAiResolution(endpoint, resolvedData, resolution);
+
+    endpoint.updateAiMapping({
+      input: endpoint.naturalLanguageInput ?? '',
+      lastResolution: {
+        ...(resolution.pathParams ? { pathParams: resolution.pathParams } : {}),
+        ...(resolution.queryParams ? { queryParams: resolution.queryParams } : {}),
+        ...(resolution.body !== undefined ? { body: resolution.body } : {})
+      },
+      source: 'rules'
+    });
+  }
+
   /**
    * Builds the HTTP request configuration for an endpoint, including URL, headers, query parameters, and body.
-   * If the endpoint has natural language input, triggers AI resolution for parameters.
+   * If the endpoint has natural language input, triggers AI resolution for parameters; without an LLM provider,
+   * parameters are always resolved by the rule resolver.
    *
    * @param endpoint - The API endpoint to build the request for.
    * @param resolvedData - The resolved data for the endpoint.
+   * @param options - Execution options, including the AI resolution mode.
+   * @param ai - Collects the model calls made during AI resolution.
+   * @param unresolvedFields - Receives the required fields the rule resolver left without a value.
    * @returns The constructed RequestData object.
    */
-  private async buildRequestConfig(endpoint: ApiEndpoint, resolvedData: any): Promise<RequestData> {
-    // Only process AI resolution if natural language input exists
-    if (endpoint.naturalLanguageInput) {
-      await this.processAiResolution(endpoint, resolvedData);
+  private async buildRequestConfig(
+    endpoint: ApiEndpoint,
+    resolvedData: any,
+    options: ExecutionOptions,
+    ai: AiExecutionDetails,
+    unresolvedFields: string[]
+  ): Promise<RequestData> {
+    if (!this.llm) {
+      this.processRuleResolution(endpoint, resolvedData, unresolvedFields);
+    } else if (endpoint.naturalLanguageInput) {
+      // Only process AI resolution if natural language input exists
+      await this.processAiResolution(endpoint, resolvedData, options, ai);
     }
 
+    return this.createRequestData(endpoint, resolvedData);
+  }
+
+  /**
+   * Creates the request of an endpoint from resolved data: the URL with path parameters, headers (with a content
+   * type for bodies), query parameters and body. Authentication is not applied.
+   *
+   * @param endpoint - The API endpoint.
+   * @param resolvedData - The resolved path parameters, query parameters, body and headers.
+   * @returns The constructed RequestData object.
+   */
+  private createRequestData(endpoint: ApiEndpoint, resolvedData: any): RequestData {
     // Build full URL with path parameters
     const url = endpoint.getFullUrl(resolvedData.pathParams);
 
@@ -1008,6 +2414,156 @@ export class ApiExecutionEngine {
     };
   }
 
+  /**
+   * Applies the authentication of an endpoint (or the engine's global authentication) to a request.
+   *
+   * @param endpoint - The API endpoint; its `auth` takes precedence over the global configuration.
+   * @param requestConfig - The request to authenticate.
+   * @returns The authenticated request, or the request unchanged when no authentication applies.
+   */
+  private async applyAuth(endpoint: ApiEndpoint, requestConfig: RequestData): Promise<RequestData> {
+    const authConfig: AuthConfig | undefined = endpoint.auth || this.globalAuth;
+    if (authConfig && authConfig.type !== 'none') {
+      const handler = this.authRegistry.getHandler(authConfig.type);
+      if (handler) {
+        return handler.applyAuth(requestConfig, authConfig, this.context);
+      } else if (authConfig.type === 'custom' && authConfig.customHandler) {
+        return authConfig.customHandler(this.context);
+      }
+    }
+    return requestConfig;
+  }
+
+  /**
+   * Sends a failed request, its error response and the endpoint schema to the model, validates the corrected path,
+   * query and body values it proposes, and retries the request once with them. Request headers are not sent to the
+   * model. Nothing is retried when the model call fails or the correction does not validate.
+   *
+   * Corrected values pass the same safeguards as resolved ones: the prompt safety checks and the approval gate.
+   * Endpoints that require consensus are not recovered, since a single model's correction cannot be checked for it.
+   *
+   * @param endpoint - The API endpoint.
+   * @param resolvedData - The resolved data of the failed request; updated with the corrected values on retry.
+   * @param failedRequest - The request that failed.
+   * @param response - The error response.
+   * @param options - Execution options; `redaction` applies to the values and error body sent to the model, and
+   *   `promptSafety`, `approval` and `consensus` to the corrected values.
+   * @param ai - Collects the model call.
+   * @returns The recorded attempt, and the retried request and its response when the request was retried.
+   */
+  private async recoverFromErrorResponse(
+    endpoint: ApiEndpoint,
+    resolvedData: any,
+    failedRequest: RequestData,
+    response: any,
+    options: ExecutionOptions,
+    ai: AiExecutionDetails
+  ): Promise<{ attempt: RecoveryAttempt; request?: RequestData; response?: any }> {
+    const attempt: RecoveryAttempt = {
+      statusCode: response.status,
+      failedRequest: {
+        url: failedRequest.url,
+        method: failedRequest.method,
+        queryParams: failedRequest.queryParams,
+        ...(failedRequest.body !== undefined ? { body: failedRequest.body } : {})
+      },
+      errorBody: response.data,
+      retried: false,
+      recovered: false
+    };
+
+    const sections = this.getCombinedSections(endpoint);
+    if (sections.length === 0) {
+      attempt.error = 'Endpoint has no path, query or body definitions to correct';
+      return { attempt };
+    }
+    if (this.getConsensusOptions(endpoint, options)) {
+      attempt.error = `${endpoint.method} requests require consensus, which a single model's correction cannot reach`;
+      console.warn(`⚠️ Recovery of ${endpoint.id} skipped: ${attempt.error}`);
+      return { attempt };
+    }
+
+    console.log(`🩹 ${endpoint.id} returned ${response.status}; asking the model to correct the request`);
+
+    const placeholders = new Map<string, any>();
+    const redact = (value: any) => options.redaction ? Redaction.redact(value, options.redaction, placeholders) : value;
+    const sentValues = redact({
+      ...(sections.includes('path') ? { path: resolvedData.pathParams } : {}),
+      ...(sections.includes('query') ? { query: resolvedData.queryParams } : {}),
+      ...(sections.includes('body') ? { body: resolvedData.body ?? null } : {})
+    });
+
+    const prompt = this.renderPrompt('recovery', endpoint, {
+      statusCode: response.status,
+      httpMethod: endpoint.method,
+      url: redact(failedRequest.url),
+      sentValues: PromptSanitizer.escapeData(JSON.stringify(sentValues, null, 2)),
+      errorBody: PromptSanitizer.escapeData(JSON.stringify(HttpResponseUtils.truncateArrays(redact(response.data), 5, 6) ?? null, null, 2)),
+      hasPathParams: sections.includes('path'),
+      hasQueryParams: sections.includes('query'),
+      hasBody: sections.includes('body'),
+      pathParamsSchema: JSON.stringify(endpoint.pathParams, null, 2),
+      queryParamsSchema: JSON.stringify(endpoint.queryParams, null, 2),
+      bodySchema: JSON.stringify(endpoint.body?.schema || {}, null, 2),
+      sections: sections.map(section => `\`${section}\``).join(', '),
+      responseExample: `{${sections.map(section => `"${section}": {...}`).join(', ')}}`,
+      naturalLanguageInput: endpoint.naturalLanguageInput
+    });
+
+    let corrected: AiResolution;
+    try {
+      const completion = await this.completePrompt(prompt, {
+        responseFormat: this.buildCombinedResponseFormat(endpoint, sections, false),
+        purpose: 'recovery',
+        ai,
+        endpoint
+      });
+      corrected = this.parseCombinedResolution(completion.content, endpoint, sections, placeholders).resolution;
+
+      // Corrections are model output like any resolution, so they pass the same checks before they are sent
+      const connectionContext = this.gatherConnectionContext(endpoint, options);
+      corrected.confidence = {
+        ...this.scoreResolvedSection('path', corrected.pathParams, endpoint, connectionContext, completion),
+        ...this.scoreResolvedSection('query', corrected.queryParams, endpoint, connectionContext, completion),
+        ...this.scoreResolvedSection('body', corrected.body, endpoint, connectionContext, completion)
+      };
+      this.checkPromptSafety(endpoint, corrected, options, ai);
+      if (options.approval) {
+        corrected = await this.requestApproval(endpoint, corrected, options.approval, ai);
+      }
+    } catch (error: any) {
+      attempt.error = error instanceof SyntaxError
+        ? `AI recovery response is not valid JSON: ${error.message}`
+        : error.message;
+      console.warn(`⚠️ Recovery of ${endpoint.id} failed: ${attempt.error}`);
+      return { attempt };
+    }
+
+    attempt.corrected = corrected;
+
+    // Corrected sections replace what was sent; sections the endpoint does not define are kept
+    if (corrected.pathParams) resolvedData.pathParams = corrected.pathParams;
+    if (corrected.queryParams) resolvedData.queryParams = corrected.queryParams;
+    if (sections.includes('body')) resolvedData.body = corrected.body;
+
+    try {
+      const request = await this.applyAuth(endpoint, this.createRequestData(endpoint, resolvedData));
+      const retried = await this.executeHttpRequest(request, options);
+
+      attempt.retried = true;
+      attempt.retryStatusCode = retried.status;
+      attempt.recovered = retried.status < 400;
+      console.log(`🩹 Retried ${endpoint.id} with corrected values: ${retried.status}`);
+
+      return { attempt, request, response: retried };
+    } catch (error: any) {
+      attempt.retried = true;
+      attempt.error = `Retry failed: ${error instanceof Error ? error.message : String(error)}`;
+      console.warn(`⚠️ Recovery of ${endpoint.id} failed: ${attempt.error}`);
+      return { attempt };
+    }
+  }
+
   /**
    * Executes an HTTP request with retry logic, using the provided configuration and execution options.
    *
@@ -1184,19 +2740,19 @@ export class ApiExecutionEngine {
   }
 
   /**
-   * Sorts API endpoints in dependency order, so that dependencies are executed before dependents.
+   * Sorts API endpoints and extraction steps in dependency order, so that dependencies are executed before dependents.
    * Throws an error if a circular dependency is detected.
    *
-   * @param endpoints - The array of API endpoints to sort.
-   * @returns The sorted array of endpoints.
+   * @param endpoints - The array of API endpoints and extraction steps to sort.
+   * @returns The sorted array.
    * @throws Error if a circular dependency is detected.
    */
-  private sortEndpointsByDependencies(endpoints: ApiEndpoint[]): ApiEndpoint[] {
-    const sorted: ApiEndpoint[] = [];
+  private sortEndpointsByDependencies(endpoints: Array<ApiEndpoint | ExtractionStep>): Array<ApiEndpoint | ExtractionStep> {
+    const sorted: Array<ApiEndpoint | ExtractionStep> = [];
     const visited = new Set<string>();
     const visiting = new Set<string>();
 
-    const visit = (endpoint: ApiEndpoint) => {
+    const visit = (endpoint: ApiEndpoint | ExtractionStep) => {
       if (visiting.has(endpoint.id)) {
         throw new Error(`Circular dependency detected involving endpoint: ${endpoint.id}`);
       }
@@ -1208,8 +2764,11 @@ export class ApiExecutionEngine {
       visiting.add(endpoint.id);
 
       // Visit dependencies first
-      for (const connection of endpoint.connections) {
-        const dependency = endpoints.find(ep => ep.id === connection.sourceNodeId);
+      const sourceNodeIds = endpoint instanceof ApiEndpoint
+        ? endpoint.connections.map(connection => connection.sourceNodeId)
+        : [endpoint.sourceNodeId];
+      for (const sourceNodeId of sourceNodeIds) {
+        const dependency = endpoints.find(ep => ep.id === sourceNodeId);
         if (dependency) {
           visit(dependency);
         }
@@ -1262,6 +2821,26 @@ export class ApiExecutionEngine {
     this.context.variables.clear();
   }
 
+  /**
+   * Creates an engine with the same LLM provider, configuration and authentication handlers, and an empty execution
+   * context. Runs on the fork neither read nor change this engine's results and variables.
+   *
+   * @returns The new engine.
+   */
+  public fork(): ApiExecutionEngine {
+    const forked = new ApiExecutionEngine(this.llm, {
+      ...(this.globalAuth ? { globalAuth: this.globalAuth } : {}),
+      ...(this.resolutionCache ? { resolutionCache: this.resolutionCache } : {}),
+      modelPrices: this.modelPrices,
+      llmSettings: this.llmSettings,
+      templates: this.templates,
+      promptTemplates: this.promptTemplates,
+      ruleResolver: this.ruleResolver
+    });
+    forked.authRegistry = this.authRegistry;
+    return forked;
+  }
+
   /**
    * Returns a shallow copy of the current execution context.
    * Useful for inspection or debugging purposes.
@@ -1272,6 +2851,16 @@ export class ApiExecutionEngine {
     return { ...this.context };
   }
 
+  /**
+   * Stores a result in the execution context as if its endpoint had run, so that connections of later endpoints
+   * read from it. Useful for replaying recorded responses and for evaluation datasets.
+   *
+   * @param result - The result; it replaces any stored result of the same endpoint id.
+   */
+  public recordResult(result: ExecutionResult): void {
+    this.context.results.set(result.endpointId, result);
+  }
+
   /**
    * Validates all typed connections for an endpoint, ensuring type compatibility and valid transformations.
    * Throws an error if any connection is type-incompatible or has an invalid transformation.
@@ -0,0 +1,130 @@
+import { ApiExecutionEngine } from "./ApiExecutionEngine";
+import { FlowPlanner } from "../ai/FlowPlanner";
+import { ApiEndpoint } from "../models/ApiEndpoint";
+import { ExecutionOptions } from "../models/ExecutionOptions";
+import { ExecutionResult } from "../models/ExecutionResult";
+import { FlowPlanContext } from "../models/FlowPlan";
+import { SessionTurn } from "../models/SessionTurn";
+
+/**
+ * Conversational wrapper around {@link ApiExecutionEngine} that keeps the execution context between user turns.
+ *
+ * Each message is rewritten by a {@link FlowPlanner} into endpoint executions over the catalog. Earlier messages and
+ * recent results are part of the planning prompt, so a follow-up such as "now update that product's price to 250"
+ * becomes a step connected to the earlier result; the connection reads its value from the engine's execution context
+ * like any other connection.
+ *
+ * @class ApiSession
+ * @property {ApiExecutionEngine} engine - The engine executing every turn; its LLM provider plans the turns.
+ * @property {FlowPlanner} planner - Rewrites messages into endpoint executions.
+ */
+export class ApiSession {
+  /**
+   * The engine executing every turn; its LLM provider plans the turns.
+   * @private
+   */
+  private engine: ApiExecutionEngine;
+
+  /**
+   * Rewrites messages into endpoint executions over the catalog.
+   * @private
+   */
+  private planner: FlowPlanner;
+
+  /**
+   * Completed turns, oldest first.
+   * @private
+   */
+  private turns: SessionTurn[] = [];
+
+  /**
+   * Endpoints executed in earlier turns, which later steps may connect to.
+   * @private
+   */
+  private executedEndpoints: ApiEndpoint[] = [];
+
+  /**
+   * Number of most recent turns whose messages and results are shown to the model.
+   * @private
+   */
+  private maxHistoryTurns: number;
+
+  /**
+   * Options passed to every flow execution.
+   * @private
+   */
+  private executionOptions: ExecutionOptions;
+
+  /**
+   * Creates a session over an endpoint catalog.
+   *
+   * @param engine - The execution engine. Its execution context is shared by all turns; do not clear it between turns.
+   * @param catalog - The endpoints the session may execute; ids must be unique.
+   * @param options - Optional settings.
+   * @param options.maxHistoryTurns - Number of most recent turns shown to the model (default: 5). Older results stay
+   *   available to connections.
+   * @param options.executionOptions - Options passed to every flow execution (default: {}).
+   * @throws {Error} If the engine has no LLM provider; sessions need a model to plan each message.
+   */
+  constructor(
+    engine: ApiExecutionEngine,
+    catalog: ApiEndpoint[],
+    options: { maxHistoryTurns?: number; executionOptions?: ExecutionOptions } = {}
+  ) {
+    if (!engine.llm) {
+      throw new Error('Sessions require an engine with an LLM provider');
+    }
+
+    this.engine = engine;
+    this.planner = new FlowPlanner(engine, catalog);
+    this.maxHistoryTurns = options.maxHistoryTurns ?? 5;
+    this.executionOptions = options.executionOptions ?? {};
+  }
+
+  /**
+   * The completed turns, oldest first.
+   */
+  public get history(): SessionTurn[] {
+    return [...this.turns];
+  }
+
+  /**
+   * Rewrites a message into endpoint executions, with the earlier turns as context, and executes them.
+   * When the plan does not validate against the catalog nothing is executed, and the turn's `plan.issues`
+   * explain why.
+   *
+   * @param message - The user message, e.g. a follow-up referring to earlier results.
+   * @returns The completed turn.
+   * @throws SyntaxError if the planning completion is not valid JSON.
+   */
+  public async send(message: string): Promise<SessionTurn> {
+    const recentTurns = this.turns.slice(-this.maxHistoryTurns);
+    const context: FlowPlanContext = {
+      conversation: recentTurns.map(turn => turn.message),
+      previousEndpoints: this.executedEndpoints,
+      previousResults: recentTurns.flatMap(turn => turn.results)
+    };
+
+    const plan = await this.planner.plan(message, undefined, context);
+
+    let results: ExecutionResult[] = [];
+    if (plan.issues.length === 0) {
+      const endpoints = this.planner.build(plan, context);
+      results = await this.engine.executeFlow(endpoints, this.executionOptions);
+      this.executedEndpoints.push(...endpoints.filter(endpoint => results.some(result => result.endpointId === endpoint.id)));
+    }
+
+    const turn: SessionTurn = { index: this.turns.length + 1, message, plan, results, timestamp: new Date() };
+    this.turns.push(turn);
+    return turn;
+  }
+
+  /**
+   * Starts over: forgets the turn history and clears the engine's execution context.
+   */
+  public reset(): void {
+    this.turns = [];
+    this.executedEndpoints = [];
+    this.engine.clearContext();
+  }
+}
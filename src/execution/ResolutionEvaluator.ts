@@ -0,0 +1,249 @@
+import { ApiExecutionEngine } from "./ApiExecutionEngine";
+import { ApiEndpoint } from "../models/ApiEndpoint";
+import { AiCallRecord } from "../models/AiCallRecord";
+import { EvaluationCase } from "../models/EvaluationCase";
+import { EvaluationCaseResult, EvaluationFieldResult, EvaluationReport } from "../models/EvaluationReport";
+import { ExecutionOptions } from "../models/ExecutionOptions";
+import { CanonicalJson } from "../utils/CanonicalJson";
+import { UsageAccounting } from "../utils/UsageAccounting";
+
+/**
+ * Measures the accuracy of parameter resolution over a dataset of {@link EvaluationCase}s, so that prompt, template
+ * and model changes can be checked for regressions.
+ *
+ * Each case runs the engine's resolution step (`resolveRequest`) on a fresh copy of its catalog endpoint, with the
+ * case's connection data seeded into the execution context; no request is sent. The resolved values are compared
+ * with the expected ones, and the report collects exact-match and per-field accuracy, the schema validation failure
+ * rate, latency and token cost. Evaluate the same dataset with engines built from different providers, settings or
+ * template registries, and compare the reports with {@link ResolutionEvaluator.compare}.
+ *
+ * Cases run on a fork of the engine ({@link ApiExecutionEngine.fork}), whose execution context is cleared before each
+ * case, so flows and sessions sharing the engine keep their context. Use an engine without a resolution cache, or
+ * cached answers are measured instead of the model.
+ *
+ * @class ResolutionEvaluator
+ * @property {ApiExecutionEngine} engine - The engine whose resolution is evaluated.
+ */
+export class ResolutionEvaluator {
+  /**
+   * The engine whose resolution is evaluated.
+   * @private
+   */
+  private engine: ApiExecutionEngine;
+
+  /**
+   * Catalog endpoints by id.
+   * @private
+   */
+  private endpoints: Map<string, ApiEndpoint>;
+
+  /**
+   * Creates an evaluator.
+   *
+   * @param engine - The engine whose resolution is evaluated.
+   * @param catalog - The endpoints referenced by the cases; ids must be unique.
+   */
+  constructor(engine: ApiExecutionEngine, catalog: ApiEndpoint[]) {
+    this.engine = engine;
+    this.endpoints = new Map(catalog.map(endpoint => [endpoint.id, endpoint]));
+  }
+
+  /**
+   * Runs every case and reports the results. Nothing is printed; format reports with {@link ResolutionEvaluator.compare}.
+   *
+   * @param cases - The dataset.
+   * @param options - Optional settings.
+   * @param options.label - Name of the evaluated configuration (default: the provider and model).
+   * @param options.executionOptions - Execution options passed to every resolution, e.g. `aiResolutionMode`.
+   * @returns The report.
+   * @throws {Error} If a case references an endpoint missing from the catalog.
+   */
+  async evaluate(
+    cases: EvaluationCase[],
+    options: { label?: string; executionOptions?: ExecutionOptions } = {}
+  ): Promise<EvaluationReport> {
+    for (const testCase of cases) {
+      if (!this.endpoints.has(testCase.endpointId)) {
+        throw new Error(`Evaluation case '${testCase.id}' references unknown endpoint '${testCase.endpointId}'`);
+      }
+    }
+
+    const provider = this.engine.llm?.name ?? 'none';
+    const model = this.engine.getLlmRequestSettings().model ?? this.engine.llm?.defaultModel;
+    const results: EvaluationCaseResult[] = [];
+    const calls: AiCallRecord[] = [];
+    // Seeding connection data and clearing it between cases must not touch the caller's context
+    const engine = this.engine.fork();
+
+    for (const testCase of cases) {
+      const { result, caseCalls } = await this.runCase(engine, testCase, options.executionOptions ?? {});
+      results.push(result);
+      calls.push(...caseCalls);
+    }
+
+    const byField: EvaluationReport['byField'] = {};
+    for (const result of results) {
+      for (const field of result.fields) {
+        const key = `${result.endpointId} ${field.field}`;
+        const entry = byField[key] ?? { total: 0, correct: 0, accuracy: 0 };
+        entry.total++;
+        if (field.correct) entry.correct++;
+        entry.accuracy = entry.correct / entry.total;
+        byField[key] = entry;
+      }
+    }
+
+    const fields = results.flatMap(result => result.fields);
+    const rate = (count: number, total: number) => total > 0 ? count / total : 0;
+    const report: EvaluationReport = {
+      label: options.label ?? `${provider}${model ? `/${model}` : ''}`,
+      provider,
+      ...(model !== undefined ? { model } : {}),
+      cases: results.length,
+      exactMatchRate: rate(results.filter(result => result.exactMatch).length, results.length),
+      fieldAccuracy: rate(fields.filter(field => field.correct).length, fields.length),
+      byField,
+      schemaFailureRate: rate(results.filter(result => result.schemaFailure).length, results.length),
+      errorRate: rate(results.filter(result => result.error !== undefined).length, results.length),
+      averageLatencyMs: rate(results.reduce((sum, result) => sum + result.latencyMs, 0), results.length),
+      usage: UsageAccounting.summarize(calls),
+      results,
+      timestamp: new Date()
+    };
+
+    return report;
+  }
+
+  /**
+   * Formats reports of the same dataset as a Markdown table, one row per configuration.
+   *
+   * @param reports - The reports to compare.
+   * @returns The table.
+   */
+  static compare(reports: EvaluationReport[]): string {
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const rows = reports.map(report => [
+      report.label,
+      String(report.cases),
+      percent(report.exactMatchRate),
+      percent(report.fieldAccuracy),
+      percent(report.schemaFailureRate),
+      percent(report.errorRate),
+      `${Math.round(report.averageLatencyMs)}ms`,
+      String(report.usage.totalTokens),
+      report.usage.cost.toFixed(4)
+    ]);
+
+    return [
+      '| Configuration | Cases | Exact match | Field accuracy | Schema failures | Errors | Avg latency | Tokens | Est. cost |',
+      '| --- | --- | --- | --- | --- | --- | --- | --- | --- |',
+      ...rows.map(row => `| ${row.join(' | ')} |`)
+    ].join('\n');
+  }
+
+  /**
+   * Resolves one case and compares the result with the expected values.
+   *
+   * @param engine - The evaluation's fork of the engine.
+   * @param testCase - The case.
+   * @param options - Execution options passed to the resolution.
+   * @returns The case result and the model calls made.
+   * @private
+   */
+  private async runCase(
+    engine: ApiExecutionEngine,
+    testCase: EvaluationCase,
+    options: ExecutionOptions
+  ): Promise<{ result: EvaluationCaseResult; caseCalls: AiCallRecord[] }> {
+    const template = this.endpoints.get(testCase.endpointId)!;
+
+    // A fresh copy keeps resolutions and repaired connection paths of earlier cases out of this one
+    const endpoint = new ApiEndpoint({
+      ...template,
+      naturalLanguageInput: testCase.naturalLanguageInput,
+      aiMapping: undefined,
+      connections: template.connections.map(connection => ({ ...connection }))
+    });
+
+    engine.clearContext();
+    for (const [sourceId, body] of Object.entries(testCase.connectionData ?? {})) {
+      engine.recordResult({
+        endpointId: sourceId,
+        success: true,
+        statusCode: 200,
+        responseTime: 0,
+        requestData: { url: '', method: 'GET', headers: {}, queryParams: {} },
+        responseData: { headers: {}, body, size: JSON.stringify(body ?? null).length },
+        timestamp: new Date()
+      });
+    }
+
+    const startTime = Date.now();
+    const resolved = await engine.resolveRequest(endpoint, options);
+    const latencyMs = Date.now() - startTime;
+
+    const sections: Array<['path' | 'query' | 'body', 'pathParams' | 'queryParams' | 'body']> = [
+      ['path', 'pathParams'],
+      ['query', 'queryParams'],
+      ['body', 'body']
+    ];
+    const fields: EvaluationFieldResult[] = [];
+    let exactMatch = resolved.error === undefined;
+
+    for (const [section, key] of sections) {
+      if (!(key in testCase.expected)) {
+        continue;
+      }
+      const expected = testCase.expected[key];
+      const actual = resolved.resolution?.[key];
+
+      if (CanonicalJson.stringify(expected ?? null) !== CanonicalJson.stringify(actual ?? null)) {
+        exactMatch = false;
+      }
+      this.compareFields(section, expected, actual, fields);
+    }
+
+    const caseCalls = resolved.ai?.calls ?? [];
+    return {
+      result: {
+        caseId: testCase.id,
+        endpointId: testCase.endpointId,
+        exactMatch,
+        fields,
+        schemaFailure: (resolved.ai?.attempts ?? []).some(attempt => !attempt.valid),
+        ...(resolved.resolution ? { resolution: resolved.resolution } : {}),
+        ...(resolved.error !== undefined ? { error: resolved.error } : {}),
+        latencyMs,
+        usage: UsageAccounting.summarize(caseCalls)
+      },
+      caseCalls
+    };
+  }
+
+  /**
+   * Compares expected and resolved values field by field. Objects are compared by their nested fields, all other
+   * values (including arrays) as a whole.
+   *
+   * @param path - The field path so far, starting with the section.
+   * @param expected - The expected value.
+   * @param actual - The resolved value.
+   * @param fields - Receives the comparison of each field.
+   * @private
+   */
+  private compareFields(path: string, expected: any, actual: any, fields: EvaluationFieldResult[]): void {
+    if (expected !== null && typeof expected === 'object' && !Array.isArray(expected) && Object.keys(expected).length > 0) {
+      for (const [name, value] of Object.entries(expected)) {
+        const nested = actual !== null && typeof actual === 'object' && !Array.isArray(actual) ? actual[name] : undefined;
+        this.compareFields(`${path}.${name}`, value, nested, fields);
+      }
+      return;
+    }
+
+    fields.push({
+      field: path,
+      expected,
+      actual,
+      correct: CanonicalJson.stringify(expected ?? null) === CanonicalJson.stringify(actual ?? null)
+    });
+  }
+}
@@ -0,0 +1,271 @@
+import { ApiEndpoint } from "../models/ApiEndpoint";
+import { AiResolution } from "../models/AiResolution";
+import { ExtractionRule } from "../models/ExtractionRule";
+import { ParameterDefinition } from "../models/ParameterDefinition";
+import { SchemaValidation } from "../utils/SchemaValidation";
+
+/**
+ * Where a value resolved by {@link RuleBasedResolver} came from.
+ *
+ * @property hint - An explicit `key=value` hint in the natural language input.
+ * @property rule - An extraction rule of the parameter definition or of the resolver.
+ * @property connection - The value mapped by a connection of the endpoint.
+ * @property current - The value already set by static body content or the endpoint's AI mapping.
+ * @property default - The parameter's default value.
+ * @property name-match - A field with the same name in the response of a connected endpoint.
+ */
+export type RuleResolutionSource = 'hint' | 'rule' | 'connection' | 'current' | 'default' | 'name-match';
+
+/**
+ * Deterministic resolver of path parameters, query parameters and body fields, used by `ApiExecutionEngine` when
+ * no LLM provider is configured (e.g. in air-gapped environments).
+ *
+ * Each field defined by the endpoint takes the first value found, in this order:
+ *
+ * 1. an explicit hint in the natural language input, e.g. `id=7 title="Blue shirt" tags=[new,sale]` (nested body
+ *    fields as `address.city=Paris`; prefix the section, as in `path.id=7`, when names are ambiguous);
+ * 2. the extraction rules of the parameter definition, then rules registered on the resolver for the field name;
+ * 3. the value mapped by one of the endpoint's connections, so that fresh data of this run wins;
+ * 4. the value already set by static body content or the endpoint's AI mapping;
+ * 5. the parameter's default value;
+ * 6. a top-level field with the same name in a connected endpoint's response (first item of array responses), which
+ *    is only a guess and so never overrides configured values.
+ *
+ * Text values are converted to the parameter's type, and values failing the parameter's validation are skipped.
+ * Required fields left without a value are reported as unresolved.
+ *
+ * @class RuleBasedResolver
+ */
+export class RuleBasedResolver {
+  /**
+   * Extraction rules applied to every parameter with the given name, after the parameter's own rules.
+   * @private
+   */
+  private rules: Map<string, ExtractionRule[]> = new Map();
+
+  /**
+   * Creates a resolver.
+   *
+   * @param options - Optional settings.
+   * @param options.rules - Extraction rules by parameter name, applied to parameters of every endpoint.
+   */
+  constructor(options: { rules?: Record<string, ExtractionRule[]> } = {}) {
+    for (const [name, rules] of Object.entries(options.rules ?? {})) {
+      rules.forEach(rule => this.register(name, rule));
+    }
+  }
+
+  /**
+   * Registers an extraction rule for every parameter with the given name, e.g. an order number pattern for `orderId`.
+   *
+   * @param name - The parameter name; nested body fields use their own name, not the path.
+   * @param rule - The rule.
+   */
+  register(name: string, rule: ExtractionRule): void {
+    this.rules.set(name, [...(this.rules.get(name) ?? []), rule]);
+  }
+
+  /**
+   * Resolves the fields of an endpoint.
+   *
+   * @param endpoint - The endpoint; its `naturalLanguageInput` provides hints and rule input.
+   * @param current - The values already resolved from defaults, static content and connections.
+   * @param connectionData - The response bodies of the endpoint's successful connections, in connection order.
+   * @returns The resolved values of every section the endpoint defines, the source of each resolved field (keyed by
+   *   section and path, e.g. 'body.title'), and the required fields left without a value.
+   */
+  resolve(
+    endpoint: ApiEndpoint,
+    current: { pathParams: Record<string, any>; queryParams: Record<string, any>; body: any },
+    connectionData: any[]
+  ): { resolution: AiResolution; sources: Record<string, RuleResolutionSource>; unresolvedFields: string[] } {
+    const input = endpoint.naturalLanguageInput ?? '';
+    const hints = this.parseHints(input);
+    const sources: Record<string, RuleResolutionSource> = {};
+    const unresolvedFields: string[] = [];
+    const resolution: AiResolution = {};
+    const connectionTargets = new Set(endpoint.connections.map(connection => `${connection.targetLocation}.${connection.targetField}`));
+
+    const resolveSection = (
+      section: 'path' | 'query' | 'body',
+      definitions: Record<string, ParameterDefinition>,
+      values: Record<string, any> | undefined,
+      prefix: string,
+      unresolved: string[]
+    ): Record<string, any> => {
+      const resolved: Record<string, any> = { ...(values ?? {}) };
+
+      for (const [name, definition] of Object.entries(definitions)) {
+        const key = prefix ? `${prefix}.${name}` : name;
+        const candidates: Array<[RuleResolutionSource, () => any]> = [
+          ['hint', () => hints.get(`${section}.${key}`) ?? hints.get(key)],
+          ['rule', () => this.applyRules(input, definition, [...(definition.extractionRules ?? []), ...(this.rules.get(name) ?? [])])],
+          ['connection', () => !prefix && connectionTargets.has(`${section}.${name}`) ? values?.[name] : undefined],
+          ['current', () => values?.[name]],
+          ['default', () => definition.defaultValue],
+          ['name-match', () => prefix ? undefined : this.findInConnections(name, connectionData)]
+        ];
+
+        const match = candidates
+          .map(([source, candidate]) => ({ source, value: this.coerce(candidate(), definition) }))
+          .find(({ value }) => value !== undefined && SchemaValidation.validateParameter(value, definition).isValid);
+        if (match) {
+          resolved[name] = match.value;
+          sources[`${section}.${key}`] = match.source;
+          continue;
+        }
+
+        // Objects without a value of their own can still be assembled from their nested fields
+        if (definition.type === 'object' && definition.properties) {
+          const nestedUnresolved: string[] = [];
+          const nested = resolveSection(section, definition.properties, values?.[name], key, nestedUnresolved);
+          if (Object.keys(nested).length > 0) {
+            resolved[name] = nested;
+            unresolved.push(...nestedUnresolved);
+            continue;
+          }
+        }
+
+        if (definition.required) {
+          unresolved.push(`${section}.${key}`);
+        }
+      }
+
+      return resolved;
+    };
+
+    if (Object.keys(endpoint.pathParams).length > 0) {
+      resolution.pathParams = resolveSection('path', endpoint.pathParams, current.pathParams, '', unresolvedFields);
+    }
+    if (Object.keys(endpoint.queryParams).length > 0) {
+      resolution.queryParams = resolveSection('query', endpoint.queryParams, current.queryParams, '', unresolvedFields);
+    }
+    if (endpoint.body?.schema && endpoint.method !== 'GET') {
+      const body = current.body && typeof current.body === 'object' && !Array.isArray(current.body) ? current.body : undefined;
+      resolution.body = resolveSection('body', endpoint.body.schema, body, '', unresolvedFields);
+    }
+
+    return { resolution, sources, unresolvedFields };
+  }
+
+  /**
+   * Parses explicit `key=value` hints. Values may be quoted with single or double quotes to include spaces, and lists
+   * may be written in brackets (`tags=[a,b]`).
+   *
+   * @param input - The natural language input.
+   * @returns The hint values (as text) by key.
+   * @private
+   */
+  private parseHints(input: string): Map<string, string> {
+    const hints = new Map<string, string>();
+    const pattern = /(?:^|[\s,;(])([A-Za-z_][\w.-]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|(\[[^\]]*\]|[^\s,;)]+))/g;
+
+    for (const match of input.matchAll(pattern)) {
+      hints.set(match[1]!, match[2] ?? match[3] ?? match[4] ?? '');
+    }
+    return hints;
+  }
+
+  /**
+   * Applies extraction rules in order and returns the first value found.
+   *
+   * @param input - The natural language input.
+   * @param definition - The parameter definition passed to function rules.
+   * @param rules - The rules.
+   * @returns The extracted value, or undefined when no rule matches.
+   * @private
+   */
+  private applyRules(input: string, definition: ParameterDefinition, rules: ExtractionRule[]): any {
+    if (!input) {
+      return undefined;
+    }
+
+    for (const rule of rules) {
+      let value: any;
+      if (rule instanceof RegExp) {
+        // A non-global copy returns capture groups, and shared patterns keep no state
+        const match = input.match(new RegExp(rule.source, rule.flags.replace('g', '')));
+        value = match ? match[1] ?? match[0] : undefined;
+      } else {
+        value = rule(input, definition);
+      }
+
+      if (value !== undefined && value !== null) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Looks up a top-level field by name in the responses of connected endpoints.
+   *
+   * @param name - The field name.
+   * @param connectionData - The response bodies.
+   * @returns The value of the first response containing the field, or undefined.
+   * @private
+   */
+  private findInConnections(name: string, connectionData: any[]): any {
+    for (const data of connectionData) {
+      const item = Array.isArray(data) ? data[0] : data;
+      if (item && typeof item === 'object' && item[name] !== undefined) {
+        return item[name];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Converts a text value to the parameter's type. Non-text values are returned unchanged.
+   *
+   * @param value - The value.
+   * @param definition - The parameter definition.
+   * @returns The converted value, or undefined when the text cannot be converted.
+   * @private
+   */
+  private coerce(value: any, definition: ParameterDefinition): any {
+    if (typeof value !== 'string') {
+      return value;
+    }
+
+    const text = value.trim();
+    switch (definition.type) {
+      case 'number': {
+        const number = Number(text);
+        return text !== '' && Number.isFinite(number) ? number : undefined;
+      }
+      case 'boolean':
+        if (/^(true|yes|1)$/i.test(text)) return true;
+        if (/^(false|no|0)$/i.test(text)) return false;
+        return undefined;
+      case 'array':
+        if (text.startsWith('[')) {
+          const parsed = this.parseJson(text);
+          if (parsed !== undefined) {
+            return parsed;
+          }
+        }
+        return text.replace(/^\[|\]$/g, '').split(',')
+          .map(item => definition.items ? this.coerce(item, definition.items) : item.trim());
+      case 'object':
+        return this.parseJson(text);
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Parses JSON text.
+   *
+   * @param text - The text.
+   * @returns The parsed value, or undefined when the text is not valid JSON.
+   * @private
+   */
+  private parseJson(text: string): any {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+}
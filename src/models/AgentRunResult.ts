@@ -0,0 +1,57 @@
+import { AiCallRecord } from "./AiCallRecord";
+import { AiUsageSummary } from "./AiUsageSummary";
+import { ExecutionResult } from "./ExecutionResult";
+
+/**
+ * A single tool call made by the agent while working towards its goal.
+ *
+ * @property toolCallId - Identifier of the tool call assigned by the model.
+ * @property toolName - Name of the tool the model called.
+ * @property endpointId - (Optional) The endpoint the tool maps to, if the tool name was recognised.
+ * @property arguments - The parsed arguments passed by the model.
+ * @property result - (Optional) The execution result, if the endpoint was executed.
+ * @property error - (Optional) Why the call was rejected or failed before execution (unknown tool, invalid arguments).
+ */
+export interface AgentStep {
+    /** Identifier of the tool call assigned by the model. */
+    toolCallId: string;
+    /** Name of the tool the model called. */
+    toolName: string;
+    /** The endpoint the tool maps to, if the tool name was recognised. */
+    endpointId?: string;
+    /** The parsed arguments passed by the model. */
+    arguments: Record<string, any>;
+    /** The execution result, if the endpoint was executed. */
+    result?: ExecutionResult;
+    /** Why the call was rejected or failed before execution. */
+    error?: string;
+}
+
+/**
+ * The outcome of an agent run: the model's final answer plus the trace of executed endpoints.
+ *
+ * @property goal - The natural-language goal given to the agent.
+ * @property answer - The model's final answer (empty if the run stopped before one was produced).
+ * @property completed - Whether the model produced a final answer within the step limit.
+ * @property steps - Every tool call made, in order, including rejected ones.
+ * @property results - The execution results of all executed endpoints, in order.
+ * @property calls - The agent's own model calls (purpose 'agent'), in order; calls made while executing endpoints
+ *   are recorded on each result's `ai`.
+ * @property usage - Totals over the agent's calls and the model calls of the executed endpoints.
+ */
+export interface AgentRunResult {
+    /** The natural-language goal given to the agent. */
+    goal: string;
+    /** The model's final answer (empty if the run stopped before one was produced). */
+    answer: string;
+    /** Whether the model produced a final answer within the step limit. */
+    completed: boolean;
+    /** Every tool call made, in order, including rejected ones. */
+    steps: AgentStep[];
+    /** The execution results of all executed endpoints, in order. */
+    results: ExecutionResult[];
+    /** The agent's own model calls, in order. */
+    calls: AiCallRecord[];
+    /** Totals over the agent's calls and the model calls of the executed endpoints. */
+    usage: AiUsageSummary;
+}
@@ -0,0 +1,24 @@
+import { LlmUsage } from "./LlmUsage";
+
+/**
+ * A single model call made while executing an endpoint.
+ *
+ * @property purpose - What the call was for (e.g. 'combined', 'path', 'query', 'body', 'extraction', 'agent', 'planner',
+ *   'summarizer').
+ * @property model - The model or deployment that produced the completion.
+ * @property latencyMs - Wall-clock duration of the call, in milliseconds.
+ * @property usage - (Optional) Token usage, when the provider reports it.
+ * @property cost - (Optional) Estimated cost from the price table; absent when usage or the model price is unknown.
+ */
+export interface AiCallRecord {
+    /** What the call was for (e.g. 'combined', 'path', 'query', 'body', 'extraction', 'agent', 'planner', 'summarizer'). */
+    purpose: string;
+    /** The model or deployment that produced the completion. */
+    model: string;
+    /** Wall-clock duration of the call, in milliseconds. */
+    latencyMs: number;
+    /** Token usage, when the provider reports it. */
+    usage?: LlmUsage;
+    /** Estimated cost from the price table; absent when usage or the model price is unknown. */
+    cost?: number;
+}
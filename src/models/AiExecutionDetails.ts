@@ -0,0 +1,31 @@
+import { AiCallRecord } from "./AiCallRecord";
+import { AiResolutionAttempt } from "./AiResolutionAttempt";
+import { AiUsageSummary } from "./AiUsageSummary";
+import { ApprovalRecord } from "./ApprovalRecord";
+import { PromptSafetyReport } from "./PromptSafetyReport";
+import { ConsensusReport } from "./ConsensusReport";
+
+/**
+ * AI activity recorded while executing an endpoint.
+ *
+ * @property calls - Every model call, in order.
+ * @property attempts - Every resolution attempt, in order, including rejected responses that were sent back for correction.
+ * @property usage - Totals over `calls`.
+ * @property approval - (Optional) Outcome of the approval gate, when the request was held for approval.
+ * @property promptSafety - (Optional) Stripped connection data and untraceable values, when there were any.
+ * @property consensus - (Optional) The independent resolutions and their conflicts, when consensus was required.
+ */
+export interface AiExecutionDetails {
+    /** Every model call, in order. */
+    calls: AiCallRecord[];
+    /** Every resolution attempt, in order, including rejected responses that were sent back for correction. */
+    attempts: AiResolutionAttempt[];
+    /** Totals over `calls`. */
+    usage: AiUsageSummary;
+    /** Outcome of the approval gate, when the request was held for approval. */
+    approval?: ApprovalRecord;
+    /** Stripped connection data and untraceable values, when there were any. */
+    promptSafety?: PromptSafetyReport;
+    /** The independent resolutions and their conflicts, when consensus was required. */
+    consensus?: ConsensusReport;
+}
@@ -0,0 +1,21 @@
+import { FieldConfidence } from "./FieldConfidence";
+
+/**
+ * The validated values produced by AI resolution of an endpoint's natural language input.
+ * Only the sections the endpoint defines are present.
+ *
+ * @property pathParams - (Optional) Resolved path parameter values.
+ * @property queryParams - (Optional) Resolved query parameter values.
+ * @property body - (Optional) Resolved request body.
+ * @property confidence - (Optional) Confidence per resolved field, keyed by section and name (e.g. 'path.id', 'body.title').
+ */
+export interface AiResolution {
+    /** Resolved path parameter values. */
+    pathParams?: Record<string, any>;
+    /** Resolved query parameter values. */
+    queryParams?: Record<string, any>;
+    /** Resolved request body. */
+    body?: any;
+    /** Confidence per resolved field, keyed by section and name (e.g. 'path.id', 'body.title'). */
+    confidence?: Record<string, FieldConfidence>;
+}
@@ -0,0 +1,19 @@
+/**
+ * One attempt at producing a valid AI response for a part of the request. The first attempt answers the original
+ * prompt; each further attempt answers a correction request carrying the validation errors of the previous one.
+ *
+ * @property purpose - The part of the request being resolved: 'combined', 'path', 'query' or 'body'.
+ * @property attempt - The attempt number, starting at 1.
+ * @property valid - Whether the response passed parsing and schema validation.
+ * @property error - (Optional) Why the response was rejected.
+ */
+export interface AiResolutionAttempt {
+    /** The part of the request being resolved: 'combined', 'path', 'query' or 'body'. */
+    purpose: string;
+    /** The attempt number, starting at 1. */
+    attempt: number;
+    /** Whether the response passed parsing and schema validation. */
+    valid: boolean;
+    /** Why the response was rejected. */
+    error?: string;
+}
@@ -0,0 +1,27 @@
+/**
+ * Totals over a set of model calls.
+ *
+ * @property calls - Number of model calls.
+ * @property promptTokens - Total prompt tokens of calls that reported usage.
+ * @property completionTokens - Total completion tokens of calls that reported usage.
+ * @property totalTokens - Total tokens of calls that reported usage.
+ * @property latencyMs - Total time spent waiting for the model, in milliseconds.
+ * @property cost - Total estimated cost of priced calls.
+ * @property unpricedCalls - Number of calls without a cost (no usage reported or no price for the model), so `cost` is a lower bound when non-zero.
+ */
+export interface AiUsageSummary {
+    /** Number of model calls. */
+    calls: number;
+    /** Total prompt tokens of calls that reported usage. */
+    promptTokens: number;
+    /** Total completion tokens of calls that reported usage. */
+    completionTokens: number;
+    /** Total tokens of calls that reported usage. */
+    totalTokens: number;
+    /** Total time spent waiting for the model, in milliseconds. */
+    latencyMs: number;
+    /** Total estimated cost of priced calls. */
+    cost: number;
+    /** Number of calls without a cost, so `cost` is a lower bound when non-zero. */
+    unpricedCalls: number;
+}
@@ -10,6 +10,8 @@ import { PathProperty, QueryProperty, BodyProperty, ResponseProperty, SchemaProp
 import { ConnectionBuilder } from "./ConnectionBuilder";
 import { TransformedProperty } from "./TransformedProperty";
 import { ParameterType } from "./ParameterType";
+import { LlmSettings } from "./LlmSettings";
+import { PromptTemplateOverrides } from "./PromptTemplateOverrides";
 
 /**
  * Represents an API endpoint definition, including HTTP method, URL, parameters, authentication, 
@@ -86,6 +88,16 @@ export class ApiEndpoint {
      */
     public aiMapping: NaturalLanguageMapping | undefined;
 
+    /**
+     * Optional LLM settings for this endpoint's AI resolution, overriding the engine defaults field by field.
+     */
+    public llmSettings: LlmSettings | undefined;
+
+    /**
+     * Optional prompt templates for this endpoint's AI resolution, overriding the engine's templates field by field.
+     */
+    public promptTemplates: PromptTemplateOverrides | undefined;
+
     /**
      * List of connections to other endpoints (for data flow or chaining).
      */
@@ -131,6 +143,8 @@ export class ApiEndpoint {
         this.expectedResponse = config.expectedResponse || [];
         this.naturalLanguageInput = config.naturalLanguageInput;
         this.aiMapping = config.aiMapping;
+        this.llmSettings = config.llmSettings;
+        this.promptTemplates = config.promptTemplates;
         this.connections = config.connections || [];
         this.timeout = config.timeout || 30000;
         this.retries = config.retries || 0;
@@ -0,0 +1,18 @@
+import { AiResolution } from "./AiResolution";
+
+/**
+ * The answer of an approval handler to an {@link ApprovalRequest}.
+ *
+ * @property approved - Whether the request may be sent.
+ * @property resolution - (Optional) Corrected values to send instead. Sections present here replace the AI-resolved
+ *   sections and are validated against the endpoint's definitions.
+ * @property reason - (Optional) Why the request was rejected or changed, recorded on the result.
+ */
+export interface ApprovalDecision {
+    /** Whether the request may be sent. */
+    approved: boolean;
+    /** Corrected values to send instead of the AI-resolved sections. */
+    resolution?: AiResolution;
+    /** Why the request was rejected or changed. */
+    reason?: string;
+}
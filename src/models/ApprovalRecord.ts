@@ -0,0 +1,21 @@
+/**
+ * Outcome of the approval gate for an endpoint execution.
+ *
+ * @property threshold - The confidence threshold in effect.
+ * @property lowConfidenceFields - The fields that scored below the threshold.
+ * @property approved - Whether the request was approved.
+ * @property edited - Whether the reviewer replaced any AI-resolved values.
+ * @property reason - (Optional) The reason given by the reviewer.
+ */
+export interface ApprovalRecord {
+    /** The confidence threshold in effect. */
+    threshold: number;
+    /** The fields that scored below the threshold. */
+    lowConfidenceFields: string[];
+    /** Whether the request was approved. */
+    approved: boolean;
+    /** Whether the reviewer replaced any AI-resolved values. */
+    edited: boolean;
+    /** The reason given by the reviewer. */
+    reason?: string;
+}
@@ -0,0 +1,34 @@
+import { AiResolution } from "./AiResolution";
+import { FieldConfidence } from "./FieldConfidence";
+import { HttpMethod } from "./HttpMethod";
+
+/**
+ * A request held at the approval gate because some AI-resolved values scored below the confidence threshold.
+ *
+ * @property endpointId - The endpoint about to be called.
+ * @property endpointName - Human-readable name of the endpoint.
+ * @property method - The HTTP method of the request.
+ * @property url - The URL the request will be sent to, with the resolved path parameters.
+ * @property resolution - The AI-resolved values that will be applied to the request.
+ * @property confidence - Confidence per resolved field.
+ * @property lowConfidenceFields - The fields scoring below the threshold.
+ * @property threshold - The confidence threshold in effect.
+ */
+export interface ApprovalRequest {
+    /** The endpoint about to be called. */
+    endpointId: string;
+    /** Human-readable name of the endpoint. */
+    endpointName: string;
+    /** The HTTP method of the request. */
+    method: HttpMethod;
+    /** The URL the request will be sent to, with the resolved path parameters. */
+    url: string;
+    /** The AI-resolved values that will be applied to the request. */
+    resolution: AiResolution;
+    /** Confidence per resolved field. */
+    confidence: Record<string, FieldConfidence>;
+    /** The fields scoring below the threshold. */
+    lowConfidenceFields: string[];
+    /** The confidence threshold in effect. */
+    threshold: number;
+}
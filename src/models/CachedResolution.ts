@@ -0,0 +1,23 @@
+import { AiResolution } from "./AiResolution";
+
+/**
+ * An AI resolution stored in a resolution cache.
+ *
+ * @property endpointId - The endpoint the resolution was produced for, used for invalidation.
+ * @property model - Identifier of the provider and model that produced the resolution.
+ * @property resolution - The validated resolved values.
+ * @property createdAt - ISO timestamp of when the entry was stored.
+ * @property expiresAt - (Optional) ISO timestamp after which the entry is ignored; absent entries never expire.
+ */
+export interface CachedResolution {
+    /** The endpoint the resolution was produced for, used for invalidation. */
+    endpointId: string;
+    /** Identifier of the provider and model that produced the resolution. */
+    model: string;
+    /** The validated resolved values. */
+    resolution: AiResolution;
+    /** ISO timestamp of when the entry was stored. */
+    createdAt: string;
+    /** ISO timestamp after which the entry is ignored; absent entries never expire. */
+    expiresAt?: string;
+}
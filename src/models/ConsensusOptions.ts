@@ -0,0 +1,20 @@
+import { HttpMethod } from "./HttpMethod";
+
+/**
+ * Multi-model consensus for high-risk AI resolution. The parameters of matching endpoints are resolved several times
+ * independently, and the request is only sent when every resolution agrees on every field.
+ *
+ * @property methods - (Optional) HTTP methods that require consensus (default: ['PUT', 'DELETE']).
+ * @property samples - (Optional) Number of independent resolutions with the endpoint's model, when `models` is not
+ *   set (default: 3).
+ * @property models - (Optional) Models or deployments to resolve with, one resolution each; takes precedence over
+ *   `samples`.
+ */
+export interface ConsensusOptions {
+    /** HTTP methods that require consensus (default: ['PUT', 'DELETE']). */
+    methods?: HttpMethod[];
+    /** Number of independent resolutions with the endpoint's model, when `models` is not set (default: 3). */
+    samples?: number;
+    /** Models or deployments to resolve with, one resolution each; takes precedence over `samples`. */
+    models?: string[];
+}
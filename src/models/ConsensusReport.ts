@@ -0,0 +1,47 @@
+import { AiResolution } from "./AiResolution";
+
+/**
+ * One independent resolution of a consensus check.
+ *
+ * @property model - The model or deployment the resolution was requested from ('default' for the provider's default).
+ * @property resolution - (Optional) The validated values, when the resolution succeeded.
+ * @property error - (Optional) Error message if the resolution failed.
+ */
+export interface ConsensusSample {
+    /** The model or deployment the resolution was requested from ('default' for the provider's default). */
+    model: string;
+    /** The validated values, when the resolution succeeded. */
+    resolution?: AiResolution;
+    /** Error message if the resolution failed. */
+    error?: string;
+}
+
+/**
+ * A field on which the resolutions of a consensus check disagree.
+ *
+ * @property field - The field, keyed by section and path (e.g. 'path.id', 'body.address.city'). Arrays are compared
+ *   as a whole.
+ * @property values - The value of each successful sample, in sample order (undefined when a sample left the field out).
+ */
+export interface ConsensusConflict {
+    /** The field, keyed by section and path (e.g. 'path.id', 'body.address.city'). */
+    field: string;
+    /** The value of each successful sample, in sample order. */
+    values: Array<{ model: string; value: any }>;
+}
+
+/**
+ * Outcome of a multi-model consensus check for an endpoint execution.
+ *
+ * @property samples - Every resolution, in request order.
+ * @property agreed - Whether every resolution succeeded and all agree on every field; the request is only sent then.
+ * @property conflicts - The fields on which successful resolutions disagree.
+ */
+export interface ConsensusReport {
+    /** Every resolution, in request order. */
+    samples: ConsensusSample[];
+    /** Whether every resolution succeeded and all agree on every field. */
+    agreed: boolean;
+    /** The fields on which successful resolutions disagree. */
+    conflicts: ConsensusConflict[];
+}
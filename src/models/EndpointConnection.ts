@@ -11,7 +11,8 @@ import { ParameterType } from "./ParameterType";
  * @property targetField - Parameter name in the target endpoint.
  * @property targetLocation - The location of the target parameter ('query', 'body', 'header', or 'path').
  * @property naturalLanguageMapping - Human-readable description of the mapping (e.g., "Use the user ID from previous call").
- * @property aiResolvedPath - (Optional) AI-generated JSON path for the source field.
+ * @property aiResolvedPath - (Optional) JSON path chosen by the model when `sourceField` is not found in the source
+ *   response; used instead of `sourceField` from then on, as long as `sourceField` stays missing.
  * @property transform - (Optional) Name of the transformation function to apply to the source value.
  * @property sourceType - (Optional) Type of the source parameter for type safety.
  * @property targetType - (Optional) Type of the target parameter for type safety.
@@ -33,7 +34,7 @@ export interface EndpointConnection {
     targetLocation: 'query' | 'body' | 'header' | 'path';
     /** Human-readable description of the mapping (e.g., "Use the user ID from previous call"). */
     naturalLanguageMapping: string;
-    /** (Optional) AI-generated JSON path for the source field. */
+    /** (Optional) JSON path chosen by the model when `sourceField` is not found in the source response. */
     aiResolvedPath?: string;
     /** (Optional) Name of the transformation function to apply to the source value. */
     transform?: string;
@@ -0,0 +1,14 @@
+import { ApiEndpoint } from "./ApiEndpoint";
+
+/**
+ * An endpoint found by semantic search, with its similarity to the query.
+ *
+ * @property endpoint - The matching endpoint.
+ * @property score - Cosine similarity between the query and the endpoint description (-1 to 1, higher is closer).
+ */
+export interface EndpointSearchResult {
+    /** The matching endpoint. */
+    endpoint: ApiEndpoint;
+    /** Cosine similarity between the query and the endpoint description (-1 to 1, higher is closer). */
+    score: number;
+}
@@ -0,0 +1,27 @@
+/**
+ * One case of a parameter resolution evaluation dataset. Cases hold only plain data, so datasets can be kept as
+ * JSON files next to the endpoint catalog.
+ *
+ * @property id - Unique identifier of the case, used in reports.
+ * @property endpointId - The id of the catalog endpoint to resolve.
+ * @property naturalLanguageInput - The natural language input to resolve.
+ * @property connectionData - (Optional) Response bodies of the endpoint's connection sources, by source endpoint id.
+ * @property expected - The expected values. Only the sections present are scored; each section is compared as a whole
+ *   for exact match and field by field for field accuracy.
+ */
+export interface EvaluationCase {
+    /** Unique identifier of the case, used in reports. */
+    id: string;
+    /** The id of the catalog endpoint to resolve. */
+    endpointId: string;
+    /** The natural language input to resolve. */
+    naturalLanguageInput: string;
+    /** Response bodies of the endpoint's connection sources, by source endpoint id. */
+    connectionData?: Record<string, any>;
+    /** The expected values; only the sections present are scored. */
+    expected: {
+        pathParams?: Record<string, any>;
+        queryParams?: Record<string, any>;
+        body?: any;
+    };
+}
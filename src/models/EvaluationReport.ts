@@ -0,0 +1,103 @@
+import { AiResolution } from "./AiResolution";
+import { AiUsageSummary } from "./AiUsageSummary";
+
+/**
+ * Comparison of one expected field with the resolved value.
+ *
+ * @property field - The field, keyed by section and path (e.g. 'path.id', 'body.address.city'). Arrays are compared
+ *   as a whole.
+ * @property expected - The expected value.
+ * @property actual - The resolved value, undefined when the field was not resolved.
+ * @property correct - Whether both values are equal.
+ */
+export interface EvaluationFieldResult {
+    /** The field, keyed by section and path (e.g. 'path.id', 'body.address.city'). */
+    field: string;
+    /** The expected value. */
+    expected: any;
+    /** The resolved value, undefined when the field was not resolved. */
+    actual: any;
+    /** Whether both values are equal. */
+    correct: boolean;
+}
+
+/**
+ * Outcome of one evaluation case.
+ *
+ * @property caseId - The id of the case.
+ * @property endpointId - The id of the resolved endpoint.
+ * @property exactMatch - Whether every expected section equals the resolved section.
+ * @property fields - The comparison of each expected field.
+ * @property schemaFailure - Whether a model response failed schema validation, even if a repair attempt succeeded.
+ * @property resolution - (Optional) The resolved values, when resolution succeeded.
+ * @property error - (Optional) Error message if resolution failed.
+ * @property latencyMs - Wall-clock time of the resolution, in milliseconds.
+ * @property usage - Model calls, tokens, model latency and estimated cost of the case.
+ */
+export interface EvaluationCaseResult {
+    /** The id of the case. */
+    caseId: string;
+    /** The id of the resolved endpoint. */
+    endpointId: string;
+    /** Whether every expected section equals the resolved section. */
+    exactMatch: boolean;
+    /** The comparison of each expected field. */
+    fields: EvaluationFieldResult[];
+    /** Whether a model response failed schema validation, even if a repair attempt succeeded. */
+    schemaFailure: boolean;
+    /** The resolved values, when resolution succeeded. */
+    resolution?: AiResolution;
+    /** Error message if resolution failed. */
+    error?: string;
+    /** Wall-clock time of the resolution, in milliseconds. */
+    latencyMs: number;
+    /** Model calls, tokens, model latency and estimated cost of the case. */
+    usage: AiUsageSummary;
+}
+
+/**
+ * Accuracy, reliability and cost of parameter resolution over an evaluation dataset, for one provider, model and
+ * template configuration. Reports of different configurations over the same dataset are directly comparable.
+ *
+ * @property label - Name of the evaluated configuration, e.g. 'gpt-4o-mini / prompts v2'.
+ * @property provider - Name of the engine's LLM provider ('none' without one).
+ * @property model - The model requested by default, if known.
+ * @property cases - Number of evaluated cases.
+ * @property exactMatchRate - Share of cases whose expected sections were all resolved exactly (0-1).
+ * @property fieldAccuracy - Share of expected fields resolved correctly, over all cases (0-1).
+ * @property byField - Accuracy of each field, keyed by endpoint id and field (e.g. 'getUser path.id').
+ * @property schemaFailureRate - Share of cases where a model response failed schema validation (0-1).
+ * @property errorRate - Share of cases whose resolution failed (0-1).
+ * @property averageLatencyMs - Average wall-clock time of a resolution, in milliseconds.
+ * @property usage - Model calls, tokens, model latency and estimated cost over all cases.
+ * @property results - The outcome of each case, in dataset order.
+ * @property timestamp - When the evaluation finished.
+ */
+export interface EvaluationReport {
+    /** Name of the evaluated configuration. */
+    label: string;
+    /** Name of the engine's LLM provider ('none' without one). */
+    provider: string;
+    /** The model requested by default, if known. */
+    model?: string;
+    /** Number of evaluated cases. */
+    cases: number;
+    /** Share of cases whose expected sections were all resolved exactly (0-1). */
+    exactMatchRate: number;
+    /** Share of expected fields resolved correctly, over all cases (0-1). */
+    fieldAccuracy: number;
+    /** Accuracy of each field, keyed by endpoint id and field (e.g. 'getUser path.id'). */
+    byField: Record<string, { total: number; correct: number; accuracy: number }>;
+    /** Share of cases where a model response failed schema validation (0-1). */
+    schemaFailureRate: number;
+    /** Share of cases whose resolution failed (0-1). */
+    errorRate: number;
+    /** Average wall-clock time of a resolution, in milliseconds. */
+    averageLatencyMs: number;
+    /** Model calls, tokens, model latency and estimated cost over all cases. */
+    usage: AiUsageSummary;
+    /** The outcome of each case, in dataset order. */
+    results: EvaluationCaseResult[];
+    /** When the evaluation finished. */
+    timestamp: Date;
+}
@@ -1,3 +1,8 @@
+import { ApprovalHandler } from "../approval/ApprovalHandler";
+import { PromptSafetyOptions } from "./PromptSafetyOptions";
+import { RedactionOptions } from "./RedactionOptions";
+import { ConsensusOptions } from "./ConsensusOptions";
+
 /**
  * Options to control the execution of an API request or workflow.
  *
@@ -5,6 +10,25 @@
  * @property retries - (Optional) Number of times to retry the execution on failure.
  * @property validateResponse - (Optional) Whether to validate the response against the expected schema.
  * @property continueOnError - (Optional) Whether to continue execution if an error occurs.
+ * @property aiResolutionMode - (Optional) How natural language input is resolved: one combined model call for path,
+ *   query and body ('combined', default) or one call per section ('separate').
+ * @property aiRepairAttempts - (Optional) How many times an AI response that fails parsing or schema validation is sent
+ *   back to the model with the errors for correction (default: 2, 0 disables correction).
+ * @property approval - (Optional) Approval gate: when any AI-resolved field scores below `threshold` (default: 0.7),
+ *   the request is held and `handler` decides whether it is sent.
+ * @property promptSafety - (Optional) Prompt-injection defenses: stripping of instruction-like connection data and
+ *   handling of resolved values that do not trace back to the model's inputs.
+ * @property redaction - (Optional) Redact personal data and secrets from connection data before it reaches the
+ *   model; placeholders the model maps into target fields are replaced with the real values.
+ * @property resolveSourceFields - (Optional) When a connection's `sourceField` is not found in the source response,
+ *   ask the model to choose the field matching its natural language mapping and store it in `aiResolvedPath`
+ *   (default: true).
+ * @property contextTokenBudget - (Optional) Estimated tokens allowed for connection data in one prompt; larger data is
+ *   shrunk to fit, keeping mapped fields longest (default: 8000).
+ * @property aiRecovery - (Optional) When a request returns 400, 404 or 422, send the request, the error response and
+ *   the endpoint schema to the model, validate the corrected values it proposes and retry once (default: false).
+ * @property consensus - (Optional) Resolve the parameters of high-risk endpoints (PUT and DELETE by default) several
+ *   times, with the same or different models, and only send the request when all resolutions agree.
  */
 export interface ExecutionOptions {
     /** Maximum time in milliseconds to wait for the execution before timing out. */
@@ -15,4 +39,27 @@ export interface ExecutionOptions {
     validateResponse?: boolean;
     /** Whether to continue execution if an error occurs. */
     continueOnError?: boolean;
+    /** How natural language input is resolved: one combined model call ('combined', default) or one call per section ('separate'). */
+    aiResolutionMode?: 'combined' | 'separate';
+    /** How many times an invalid AI response is sent back to the model with the errors for correction (default: 2). */
+    aiRepairAttempts?: number;
+    /** Approval gate for requests with low-confidence AI-resolved fields (threshold default: 0.7). */
+    approval?: {
+        /** Reviews held requests: a console prompt, a review UI or a programmatic policy. */
+        handler: ApprovalHandler;
+        /** Fields scoring below this confidence (0-1) hold the request for approval (default: 0.7). */
+        threshold?: number;
+    };
+    /** Prompt-injection defenses for connection data fed to the model. */
+    promptSafety?: PromptSafetyOptions;
+    /** Redaction of personal data and secrets in connection data, with reversible placeholders. */
+    redaction?: RedactionOptions;
+    /** Ask the model for the source path of connections whose `sourceField` is missing from the response (default: true). */
+    resolveSourceFields?: boolean;
+    /** Estimated tokens allowed for connection data in one prompt (default: 8000). */
+    contextTokenBudget?: number;
+    /** Let the model correct requests rejected with 400, 404 or 422 from the error response, and retry once (default: false). */
+    aiRecovery?: boolean;
+    /** Resolve high-risk endpoints (PUT and DELETE by default) several times and require all resolutions to agree. */
+    consensus?: ConsensusOptions;
 }
@@ -1,5 +1,7 @@
 import { ResponseData } from "./ResponseData";
 import { RequestData } from "./RequestData";
+import { AiExecutionDetails } from "./AiExecutionDetails";
+import { RecoveryAttempt } from "./RecoveryAttempt";
 
 /**
  * Represents the result of executing an API endpoint.
@@ -12,6 +14,11 @@ import { RequestData } from "./RequestData";
  * @property responseData - The data received in the response.
  * @property error - (Optional) Error message if the execution failed.
  * @property timestamp - The date and time when the execution occurred.
+ * @property ai - (Optional) Model calls, token usage, latency and estimated cost of AI resolution, when any model call was made.
+ * @property recovery - (Optional) Attempts to correct the request after a 400, 404 or 422 response, when `aiRecovery` is enabled.
+ *   The other fields describe the retried request when a retry was sent.
+ * @property unresolvedFields - (Optional) Required fields the rule resolver left without a value when the engine runs
+ *   without an LLM provider, keyed by section and path (e.g. 'body.title').
  */
 export interface ExecutionResult {
     /** The unique identifier of the executed endpoint. */
@@ -30,4 +37,10 @@ export interface ExecutionResult {
     error?: string;
     /** The date and time when the execution occurred. */
     timestamp: Date;
+    /** Model calls, token usage, latency and estimated cost of AI resolution, when any model call was made. */
+    ai?: AiExecutionDetails;
+    /** Attempts to correct the request after a 400, 404 or 422 response, when `aiRecovery` is enabled. */
+    recovery?: RecoveryAttempt[];
+    /** Required fields the rule resolver left without a value (engines without an LLM provider). */
+    unresolvedFields?: string[];
 }
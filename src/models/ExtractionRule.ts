@@ -0,0 +1,12 @@
+import { ParameterDefinition } from "./ParameterDefinition";
+
+/**
+ * A deterministic rule extracting a parameter value from an endpoint's natural language input, used when no LLM
+ * provider is configured.
+ *
+ * - A regular expression yields its first capture group, or the whole match when it has no groups. The text is
+ *   converted to the parameter's type.
+ * - A function receives the input and the parameter definition and returns the value, or undefined when the input
+ *   does not contain it. Strings are converted to the parameter's type.
+ */
+export type ExtractionRule = RegExp | ((input: string, definition: ParameterDefinition) => any);
@@ -0,0 +1,26 @@
+import { ParameterDefinition } from "./ParameterDefinition";
+
+/**
+ * A flow node that answers a natural language query over the response of an earlier endpoint, e.g. "the id of the
+ * cheapest product", instead of reading a literal `sourceField`.
+ *
+ * The answer is validated against `definition` and stored in `ExecutionContext.variables` under the step's `id`.
+ * The step's result is also stored like an endpoint result, with the answer as response body, so that connections
+ * with `sourceNodeId` set to the step's `id` consume it like any other source (`sourceField: ''` for the value
+ * itself, or a path into an object value).
+ *
+ * @property id - Unique identifier of the step; the variable name and the node id used by connections.
+ * @property sourceNodeId - The ID of the endpoint (or step) whose response is queried.
+ * @property query - What to extract, in natural language.
+ * @property definition - Type and validation rules of the extracted value.
+ */
+export interface ExtractionStep {
+    /** Unique identifier of the step; the variable name and the node id used by connections. */
+    id: string;
+    /** The ID of the endpoint (or step) whose response is queried. */
+    sourceNodeId: string;
+    /** What to extract, in natural language. */
+    query: string;
+    /** Type and validation rules of the extracted value. */
+    definition: ParameterDefinition;
+}
@@ -0,0 +1,21 @@
+/**
+ * Confidence in one AI-resolved field, combined from the signals that were available.
+ *
+ * @property score - The combined confidence (0-1).
+ * @property selfReport - (Optional) The model's own rating of the value (0-1), requested in combined resolution mode.
+ * @property logprob - (Optional) The geometric mean probability of the tokens of the value, when the provider returns logprobs.
+ * @property grounding - (Optional) How well the value is backed by connection data or the natural language input (0-1).
+ * @property approved - (Optional) True when a reviewer supplied or confirmed the value at the approval gate.
+ */
+export interface FieldConfidence {
+    /** The combined confidence (0-1). */
+    score: number;
+    /** The model's own rating of the value (0-1). */
+    selfReport?: number;
+    /** The geometric mean probability of the tokens of the value. */
+    logprob?: number;
+    /** How well the value is backed by connection data or the natural language input (0-1). */
+    grounding?: number;
+    /** True when a reviewer supplied or confirmed the value at the approval gate. */
+    approved?: boolean;
+}
@@ -0,0 +1,87 @@
+import { AiCallRecord } from "./AiCallRecord";
+import { AiUsageSummary } from "./AiUsageSummary";
+import { ApiEndpoint } from "./ApiEndpoint";
+import { ExecutionResult } from "./ExecutionResult";
+
+/**
+ * A data dependency in a flow plan: a value from an earlier step's response feeds a parameter of a later step.
+ * Becomes an {@link EndpointConnection} when the plan is built.
+ *
+ * @property sourceStepId - The id of the earlier step whose response provides the value.
+ * @property sourceField - JSON path in the source response (e.g., "id" or "0.id").
+ * @property targetLocation - Where the value goes in the target step ('path', 'query' or 'body').
+ * @property targetField - Parameter name (or body JSON path) in the target step.
+ * @property mapping - Human-readable description of the mapping.
+ */
+export interface FlowPlanConnection {
+    /** The id of the earlier step whose response provides the value. */
+    sourceStepId: string;
+    /** JSON path in the source response (e.g., "id" or "0.id"). */
+    sourceField: string;
+    /** Where the value goes in the target step. */
+    targetLocation: 'path' | 'query' | 'body';
+    /** Parameter name (or body JSON path) in the target step. */
+    targetField: string;
+    /** Human-readable description of the mapping. */
+    mapping: string;
+}
+
+/**
+ * A single step of a flow plan: one execution of a catalog endpoint.
+ *
+ * @property id - Unique step id; becomes the id of the built endpoint.
+ * @property endpointId - The id of the catalog endpoint to execute.
+ * @property naturalLanguageInput - The natural language input resolving this step's parameters.
+ * @property connections - Values this step takes from earlier steps.
+ */
+export interface FlowPlanStep {
+    /** Unique step id; becomes the id of the built endpoint. */
+    id: string;
+    /** The id of the catalog endpoint to execute. */
+    endpointId: string;
+    /** The natural language input resolving this step's parameters. */
+    naturalLanguageInput: string;
+    /** Values this step takes from earlier steps. */
+    connections: FlowPlanConnection[];
+}
+
+/**
+ * A reviewable, editable plan produced by the flow planner for a natural-language goal.
+ *
+ * @property goal - The goal the plan was generated for.
+ * @property steps - The steps, in execution order.
+ * @property notes - (Optional) The planner's explanation or assumptions.
+ * @property issues - Problems found when checking the plan against the catalog; empty when the plan can be built.
+ * @property calls - (Optional) The planning call (purpose 'planner'); absent from plans written by hand.
+ * @property usage - (Optional) Totals over the planning calls.
+ */
+export interface FlowPlan {
+    /** The goal the plan was generated for. */
+    goal: string;
+    /** The steps, in execution order. */
+    steps: FlowPlanStep[];
+    /** The planner's explanation or assumptions. */
+    notes?: string;
+    /** Problems found when checking the plan against the catalog; empty when the plan can be built. */
+    issues: string[];
+    /** The planning call; absent from plans written by hand. */
+    calls?: AiCallRecord[];
+    /** Totals over the planning calls. */
+    usage?: AiUsageSummary;
+}
+
+/**
+ * What a plan generated within a conversation may refer to: the messages and results of earlier turns.
+ *
+ * @property conversation - Earlier user messages, oldest first.
+ * @property previousEndpoints - Endpoints executed in earlier turns; steps may take values from them by id.
+ * @property previousResults - Results shown to the model, typically those of the most recent turns.
+ */
+export interface FlowPlanContext {
+    /** Earlier user messages, oldest first. */
+    conversation: string[];
+    /** Endpoints executed in earlier turns; steps may take values from them by id. */
+    previousEndpoints: ApiEndpoint[];
+    /** Results shown to the model, typically those of the most recent turns. */
+    previousResults: ExecutionResult[];
+}
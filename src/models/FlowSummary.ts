@@ -0,0 +1,46 @@
+import { AiCallRecord } from "./AiCallRecord";
+import { AiUsageSummary } from "./AiUsageSummary";
+
+/**
+ * A reference from a flow summary to the response value it is based on.
+ *
+ * @property endpointId - The id of the endpoint whose response holds the value.
+ * @property path - Dot-separated JSON path in the response body, using numeric segments for array items
+ *   (e.g. "id", "0.id", "data.cart.products.0"); empty for the whole body.
+ * @property value - (Optional) The value found at the path, read from the actual response. Absent when the citation
+ *   does not resolve.
+ */
+export interface FlowSummaryCitation {
+    /** The id of the endpoint whose response holds the value. */
+    endpointId: string;
+    /** Dot-separated JSON path in the response body; empty for the whole body. */
+    path: string;
+    /** The value found at the path, read from the actual response. */
+    value?: any;
+}
+
+/**
+ * A natural-language answer to the goal of a completed flow, with citations of the response values it is based on.
+ *
+ * @property goal - The question or goal the flow was run for.
+ * @property answer - The answer, written for the user.
+ * @property citations - The response values the answer relies on.
+ * @property issues - Citations that do not resolve against the results (unknown endpoint or missing path); empty when
+ *   every citation was verified.
+ * @property calls - The summary call (purpose 'summarizer').
+ * @property usage - Totals over the summary calls.
+ */
+export interface FlowSummary {
+    /** The question or goal the flow was run for. */
+    goal: string;
+    /** The answer, written for the user. */
+    answer: string;
+    /** The response values the answer relies on. */
+    citations: FlowSummaryCitation[];
+    /** Citations that do not resolve against the results; empty when every citation was verified. */
+    issues: string[];
+    /** The summary call. */
+    calls: AiCallRecord[];
+    /** Totals over the summary calls. */
+    usage: AiUsageSummary;
+}
@@ -0,0 +1,17 @@
+import { AiUsageSummary } from "./AiUsageSummary";
+
+/**
+ * AI usage rolled up over the results of an `executeFlow` run.
+ *
+ * @property total - Totals over every model call of the run.
+ * @property byEndpoint - Totals per endpoint id, for endpoints that made model calls.
+ * @property byModel - Totals per model or deployment name.
+ */
+export interface FlowUsageReport {
+    /** Totals over every model call of the run. */
+    total: AiUsageSummary;
+    /** Totals per endpoint id, for endpoints that made model calls. */
+    byEndpoint: Record<string, AiUsageSummary>;
+    /** Totals per model or deployment name. */
+    byModel: Record<string, AiUsageSummary>;
+}
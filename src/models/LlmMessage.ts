@@ -0,0 +1,31 @@
+import { LlmToolCall } from "./LlmTool";
+
+/**
+ * The role of a message author in a chat-style LLM conversation.
+ *
+ * @typedef {'system' | 'user' | 'assistant' | 'tool'} LlmRole
+ * @property system - Instructions that frame the conversation.
+ * @property user - Input provided by the caller.
+ * @property assistant - Output previously produced by the model.
+ * @property tool - The result of a function call requested by the model.
+ */
+export type LlmRole = 'system' | 'user' | 'assistant' | 'tool';
+
+/**
+ * A single message sent to or received from an LLM provider.
+ *
+ * @property role - The author of the message.
+ * @property content - The text content of the message.
+ * @property toolCalls - (Optional, assistant) Function calls requested by the model in this message.
+ * @property toolCallId - (Optional, tool) Identifier of the function call this message answers.
+ */
+export interface LlmMessage {
+    /** The author of the message. */
+    role: LlmRole;
+    /** The text content of the message. */
+    content: string;
+    /** Function calls requested by the model in this message (assistant messages only). */
+    toolCalls?: LlmToolCall[];
+    /** Identifier of the function call this message answers (tool messages only). */
+    toolCallId?: string;
+}
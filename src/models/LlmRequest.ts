@@ -0,0 +1,37 @@
+import { LlmMessage } from "./LlmMessage";
+import { LlmResponseFormat } from "./LlmResponseFormat";
+import { LlmToolDefinition } from "./LlmTool";
+
+/**
+ * Describes a chat completion request sent to an LLM provider.
+ *
+ * @property messages - The conversation to send, in order.
+ * @property model - (Optional) The model or deployment name. Providers fall back to their configured default when omitted.
+ * @property responseFormat - (Optional) Structured output / JSON mode constraint. Ignored by providers without structured output support.
+ * @property tools - (Optional) Functions the model may call. Requires a provider with tool call support.
+ * @property temperature - (Optional) Sampling temperature. Providers fall back to their configured default when omitted.
+ * @property maxTokens - (Optional) Maximum number of completion tokens. Providers fall back to their configured default when omitted.
+ * @property apiVersion - (Optional) API version to call. Ignored by providers without API versions.
+ * @property timeout - (Optional) Request timeout in milliseconds.
+ * @property logprobs - (Optional) Whether to return the log probability of each generated token. Ignored by providers without logprobs support.
+ */
+export interface LlmRequest {
+    /** The conversation to send, in order. */
+    messages: LlmMessage[];
+    /** The model or deployment name. Providers fall back to their configured default when omitted. */
+    model?: string;
+    /** Structured output / JSON mode constraint. Ignored by providers without structured output support. */
+    responseFormat?: LlmResponseFormat;
+    /** Functions the model may call. Requires a provider with tool call support. */
+    tools?: LlmToolDefinition[];
+    /** Sampling temperature. Providers fall back to their configured default when omitted. */
+    temperature?: number;
+    /** Maximum number of completion tokens. Providers fall back to their configured default when omitted. */
+    maxTokens?: number;
+    /** API version to call. Ignored by providers without API versions. */
+    apiVersion?: string;
+    /** Request timeout in milliseconds. */
+    timeout?: number;
+    /** Whether to return the log probability of each generated token. Ignored by providers without logprobs support. */
+    logprobs?: boolean;
+}
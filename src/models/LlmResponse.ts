@@ -0,0 +1,25 @@
+import { LlmToolCall } from "./LlmTool";
+import { LlmUsage } from "./LlmUsage";
+import { LlmTokenLogprob } from "./LlmTokenLogprob";
+
+/**
+ * Represents the completion returned by an LLM provider.
+ *
+ * @property content - The text produced by the model.
+ * @property model - The model or deployment that produced the completion.
+ * @property toolCalls - (Optional) Function calls requested by the model instead of, or in addition to, text content.
+ * @property usage - (Optional) Token usage, when the provider reports it.
+ * @property logprobs - (Optional) Log probability of each generated token, when requested and supported.
+ */
+export interface LlmResponse {
+    /** The text produced by the model. */
+    content: string;
+    /** The model or deployment that produced the completion. */
+    model: string;
+    /** Function calls requested by the model instead of, or in addition to, text content. */
+    toolCalls?: LlmToolCall[];
+    /** Token usage, when the provider reports it. */
+    usage?: LlmUsage;
+    /** Log probability of each generated token, when requested and supported. */
+    logprobs?: LlmTokenLogprob[];
+}
@@ -0,0 +1,14 @@
+/**
+ * Requested output format for an LLM completion.
+ *
+ * - `json_object`: The model must return a syntactically valid JSON object (JSON mode).
+ * - `json_schema`: The model must return JSON conforming to the given JSON Schema (structured output).
+ *
+ * @property type - The format kind.
+ * @property name - (json_schema) Identifier of the schema, as required by the chat completions API.
+ * @property schema - (json_schema) The JSON Schema the output must conform to.
+ * @property strict - (json_schema, optional) Whether the provider must enforce the schema exactly.
+ */
+export type LlmResponseFormat =
+    | { type: 'json_object' }
+    | { type: 'json_schema'; name: string; schema: Record<string, any>; strict?: boolean };
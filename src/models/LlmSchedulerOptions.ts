@@ -0,0 +1,55 @@
+import { LlmProvider } from "../ai/LlmProvider";
+
+/**
+ * A provider (and model) that an `LlmScheduler` falls back to when the providers before it in the chain are throttled
+ * or unavailable.
+ *
+ * @property provider - The provider.
+ * @property model - (Optional) Model or deployment to request from it; replaces the model named by the request
+ *   (default: the provider's default model).
+ * @property requestsPerMinute - (Optional) Request budget of this entry (default: unlimited).
+ * @property tokensPerMinute - (Optional) Token budget of this entry (default: unlimited).
+ */
+export interface LlmFallback {
+    /** The provider. */
+    provider: LlmProvider;
+    /** Model or deployment to request from it; replaces the model named by the request. */
+    model?: string;
+    /** Request budget of this entry (default: unlimited). */
+    requestsPerMinute?: number;
+    /** Token budget of this entry (default: unlimited). */
+    tokensPerMinute?: number;
+}
+
+/**
+ * Settings of an `LlmScheduler`.
+ *
+ * @property maxConcurrency - (Optional) Maximum number of calls in flight across the whole chain; further calls wait
+ *   in line (default: 4).
+ * @property requestsPerMinute - (Optional) Request budget of the primary provider (default: unlimited).
+ * @property tokensPerMinute - (Optional) Token budget of the primary provider, counting prompt and completion tokens
+ *   (default: unlimited).
+ * @property maxRetries - (Optional) Retries of a throttled or failing call per chain entry, before falling back to the
+ *   next entry (default: 3).
+ * @property baseDelayMs - (Optional) First retry delay when the provider sends no Retry-After; doubled on each retry,
+ *   with jitter (default: 1000).
+ * @property maxDelayMs - (Optional) Longest delay waited before a retry; when a Retry-After asks for longer, the call
+ *   falls back to the next entry at once (default: 30000).
+ * @property fallbacks - (Optional) Providers tried in order once the primary is throttled or down (default: none).
+ */
+export interface LlmSchedulerOptions {
+    /** Maximum number of calls in flight across the whole chain (default: 4). */
+    maxConcurrency?: number;
+    /** Request budget of the primary provider (default: unlimited). */
+    requestsPerMinute?: number;
+    /** Token budget of the primary provider (default: unlimited). */
+    tokensPerMinute?: number;
+    /** Retries of a throttled or failing call per chain entry (default: 3). */
+    maxRetries?: number;
+    /** First retry delay when the provider sends no Retry-After (default: 1000). */
+    baseDelayMs?: number;
+    /** Longest delay waited before a retry (default: 30000). */
+    maxDelayMs?: number;
+    /** Providers tried in order once the primary is throttled or down. */
+    fallbacks?: LlmFallback[];
+}
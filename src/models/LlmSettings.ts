@@ -0,0 +1,25 @@
+/**
+ * Model and request settings for LLM calls. Used for provider defaults (e.g. `AOAI`), engine-wide defaults,
+ * and per-endpoint overrides (`ApiEndpoint.llmSettings`).
+ *
+ * @property deployment - (Optional) Azure OpenAI deployment name. Takes precedence over `model` when both are set.
+ * @property model - (Optional) Model name, for providers that select models by name.
+ * @property temperature - (Optional) Sampling temperature. Omitted settings use the server default.
+ * @property maxTokens - (Optional) Maximum number of completion tokens. Omitted settings use the server default.
+ * @property apiVersion - (Optional) Azure OpenAI API version. Ignored by providers without API versions.
+ * @property timeout - (Optional) Request timeout in milliseconds.
+ */
+export interface LlmSettings {
+    /** Azure OpenAI deployment name. Takes precedence over `model` when both are set. */
+    deployment?: string;
+    /** Model name, for providers that select models by name. */
+    model?: string;
+    /** Sampling temperature. */
+    temperature?: number;
+    /** Maximum number of completion tokens. */
+    maxTokens?: number;
+    /** Azure OpenAI API version. */
+    apiVersion?: string;
+    /** Request timeout in milliseconds. */
+    timeout?: number;
+}
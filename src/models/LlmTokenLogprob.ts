@@ -0,0 +1,12 @@
+/**
+ * Log probability of one generated token.
+ *
+ * @property token - The token text.
+ * @property logprob - The natural log of the token's probability (0 = certain).
+ */
+export interface LlmTokenLogprob {
+    /** The token text. */
+    token: string;
+    /** The natural log of the token's probability (0 = certain). */
+    logprob: number;
+}
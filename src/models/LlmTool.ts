@@ -0,0 +1,31 @@
+/**
+ * Describes a function the model may call during a chat completion (function calling).
+ *
+ * @property name - Function name; letters, digits, underscores and dashes only (max 64 characters).
+ * @property description - What the function does, used by the model to decide when to call it.
+ * @property parameters - JSON Schema of the function arguments object.
+ */
+export interface LlmToolDefinition {
+    /** Function name; letters, digits, underscores and dashes only (max 64 characters). */
+    name: string;
+    /** What the function does, used by the model to decide when to call it. */
+    description: string;
+    /** JSON Schema of the function arguments object. */
+    parameters: Record<string, any>;
+}
+
+/**
+ * A function call requested by the model.
+ *
+ * @property id - Identifier of the call; echoed back in the tool result message.
+ * @property name - Name of the function to call.
+ * @property arguments - Raw JSON string of the arguments produced by the model.
+ */
+export interface LlmToolCall {
+    /** Identifier of the call; echoed back in the tool result message. */
+    id: string;
+    /** Name of the function to call. */
+    name: string;
+    /** Raw JSON string of the arguments produced by the model. */
+    arguments: string;
+}
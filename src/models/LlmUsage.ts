@@ -0,0 +1,15 @@
+/**
+ * Token usage reported by an LLM provider for a single completion.
+ *
+ * @property promptTokens - Tokens in the prompt (input).
+ * @property completionTokens - Tokens in the completion (output).
+ * @property totalTokens - Total tokens billed for the request.
+ */
+export interface LlmUsage {
+    /** Tokens in the prompt (input). */
+    promptTokens: number;
+    /** Tokens in the completion (output). */
+    completionTokens: number;
+    /** Total tokens billed for the request. */
+    totalTokens: number;
+}
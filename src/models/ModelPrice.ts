@@ -0,0 +1,18 @@
+/**
+ * Price of a model, in currency units (e.g. USD) per million tokens.
+ *
+ * @property inputPerMillion - Price per million prompt tokens.
+ * @property outputPerMillion - Price per million completion tokens.
+ */
+export interface ModelPrice {
+    /** Price per million prompt tokens. */
+    inputPerMillion: number;
+    /** Price per million completion tokens. */
+    outputPerMillion: number;
+}
+
+/**
+ * Prices keyed by model or deployment name. A model matches its exact name first, then the longest
+ * key it starts with (e.g. "gpt-4.1-mini-2025-04-14" matches "gpt-4.1-mini").
+ */
+export type ModelPriceTable = Record<string, ModelPrice>;
@@ -1,3 +1,6 @@
+import { AiResolution } from "./AiResolution";
+import { FieldConfidence } from "./FieldConfidence";
+
 /**
  * Represents a mapping from a natural language input to resolved API parameters and body content.
  *
@@ -5,7 +8,14 @@
  * @property resolvedParams - (Optional) The query parameters resolved by AI from the input.
  * @property resolvedBody - (Optional) The body content resolved by AI from the input.
  * @property lastUpdated - The date and time when this mapping was last updated.
- * @property confidence - (Optional) The AI's confidence score for this mapping (range: 0-1).
+ * @property confidence - (Optional) The AI's confidence score for this mapping (range: 0-1): the lowest field confidence.
+ * @property fieldConfidence - (Optional) Confidence per resolved field, keyed by section and name (e.g. 'path.id').
+ * @property source - (Optional) Where the resolved values came from: a model call, the resolution cache or the rule
+ *   resolver used without an LLM provider.
+ * @property cacheKey - (Optional) The resolution cache key of the resolved values, when a cache is configured.
+ * @property lastResolution - (Optional) The values of the engine's last resolution, recorded for inspection. The engine
+ *   records its resolutions here rather than in `resolvedParams` and `resolvedBody`: those are inputs merged into every
+ *   request built for the endpoint, so writing there would feed one run's values into the next.
  */
 export interface NaturalLanguageMapping {
     /** Natural language description provided by the user. */
@@ -18,4 +28,12 @@ export interface NaturalLanguageMapping {
     lastUpdated: Date;
     /** AI confidence score (0-1). */
     confidence?: number;
+    /** Confidence per resolved field, keyed by section and name (e.g. 'path.id'). */
+    fieldConfidence?: Record<string, FieldConfidence>;
+    /** Where the resolved values came from: a model call, the resolution cache or the rule resolver. */
+    source?: 'model' | 'cache' | 'rules';
+    /** The resolution cache key of the resolved values, when a cache is configured. */
+    cacheKey?: string;
+    /** The values of the engine's last resolution; not read back as input of the next run. */
+    lastResolution?: AiResolution;
 }
@@ -1,4 +1,5 @@
 import { ParameterType } from "./ParameterType";
+import { ExtractionRule } from "./ExtractionRule";
 
 /**
  * Defines a parameter for an API endpoint, including type, validation, and documentation metadata.
@@ -17,6 +18,8 @@ import { ParameterType } from "./ParameterType";
  *   @property validation.max - (Optional) Maximum value (for numbers).
  *   @property validation.pattern - (Optional) Regex pattern the value must match (for strings).
  *   @property validation.enum - (Optional) List of allowed values.
+ * @property extractionRules - (Optional) Rules extracting the value from natural language input when no LLM provider
+ *   is configured, tried in order.
  */
 export interface ParameterDefinition {
   /** The name of the parameter. */
@@ -50,4 +53,6 @@ export interface ParameterDefinition {
     pattern?: string;
     enum?: any[];
   };
+  /** Rules extracting the value from natural language input when no LLM provider is configured, tried in order. */
+  extractionRules?: ExtractionRule[];
 }
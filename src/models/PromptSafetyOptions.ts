@@ -0,0 +1,15 @@
+/**
+ * Prompt-injection defenses applied to AI resolution. Connection data is always escaped and placed between
+ * `<untrusted-data>` delimiters; these options add stripping and control the traceability check.
+ *
+ * @property stripInstructions - (Optional) Replace instruction-like strings in connection data before it is sent to
+ *   the model (default: false).
+ * @property untraceable - (Optional) What to do with resolved values that appear neither in the natural language
+ *   input nor in connection data: 'flag' records and logs them (default), 'reject' fails the execution.
+ */
+export interface PromptSafetyOptions {
+    /** Replace instruction-like strings in connection data before it is sent to the model (default: false). */
+    stripInstructions?: boolean;
+    /** What to do with resolved values that do not trace back to the model's inputs (default: 'flag'). */
+    untraceable?: 'flag' | 'reject';
+}
@@ -0,0 +1,14 @@
+/**
+ * Findings of the prompt-injection defenses for one endpoint execution.
+ *
+ * @property strippedFields - Connection data strings replaced because they looked like instructions, as
+ *   `<source endpoint id>.<path>`.
+ * @property untraceableFields - Resolved values found neither in the natural language input nor in connection data,
+ *   as dotted paths starting with the section (e.g. 'body.email').
+ */
+export interface PromptSafetyReport {
+    /** Connection data strings replaced because they looked like instructions, as `<source endpoint id>.<path>`. */
+    strippedFields: string[];
+    /** Resolved values found neither in the natural language input nor in connection data. */
+    untraceableFields: string[];
+}
@@ -0,0 +1,34 @@
+/**
+ * Names of the prompt templates to use for AI parameter resolution instead of the built-in ones.
+ * Each name must be registered in the engine's `PromptTemplateRegistry`. Set engine-wide through the
+ * `promptTemplates` engine option, or per endpoint through `ApiEndpoint.promptTemplates`, which takes precedence.
+ *
+ * @property path - (Optional) Template for path parameters in separate mode (default: 'path-parameters-prompt').
+ * @property query - (Optional) Template for query parameters in separate mode (default: 'query-parameters-prompt').
+ * @property body - (Optional) Template for the request body in separate mode (default: 'body-parameters-prompt').
+ * @property combined - (Optional) Template for combined mode (default: 'combined-parameters-prompt').
+ * @property repair - (Optional) Template for correction requests (default: 'repair-prompt').
+ * @property sourceField - (Optional) Template for choosing the source path of a connection whose `sourceField` is not
+ *   found (default: 'source-field-prompt').
+ * @property recovery - (Optional) Template for correcting a request from its error response (default: 'recovery-prompt').
+ * @property extraction - (Optional) Template for extraction steps (default: 'extraction-prompt'); engine-wide only,
+ *   since extraction steps belong to no endpoint.
+ */
+export interface PromptTemplateOverrides {
+    /** Template for path parameters in separate mode. */
+    path?: string;
+    /** Template for query parameters in separate mode. */
+    query?: string;
+    /** Template for the request body in separate mode. */
+    body?: string;
+    /** Template for combined mode. */
+    combined?: string;
+    /** Template for correction requests. */
+    repair?: string;
+    /** Template for choosing the source path of a broken connection. */
+    sourceField?: string;
+    /** Template for correcting a request from its error response. */
+    recovery?: string;
+    /** Template for extraction steps (engine-wide only). */
+    extraction?: string;
+}
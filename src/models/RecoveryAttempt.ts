@@ -0,0 +1,33 @@
+import { AiResolution } from "./AiResolution";
+import { RequestData } from "./RequestData";
+
+/**
+ * One attempt at recovering from an HTTP 400, 404 or 422 response by having the model correct the request.
+ *
+ * @property statusCode - Status code of the failed response.
+ * @property failedRequest - The request that failed (URL, method, query parameters and body; headers are omitted).
+ * @property errorBody - Body of the failed response, as sent to the model.
+ * @property corrected - (Optional) The validated path, query and body values proposed by the model.
+ * @property retried - Whether the corrected request was sent.
+ * @property retryStatusCode - (Optional) Status code of the retried request.
+ * @property recovered - Whether the retried request succeeded (status below 400).
+ * @property error - (Optional) Why the request was not retried, or why the retry failed.
+ */
+export interface RecoveryAttempt {
+    /** Status code of the failed response. */
+    statusCode: number;
+    /** The request that failed (headers are omitted). */
+    failedRequest: Omit<RequestData, 'headers'>;
+    /** Body of the failed response, as sent to the model. */
+    errorBody: any;
+    /** The validated path, query and body values proposed by the model. */
+    corrected?: AiResolution;
+    /** Whether the corrected request was sent. */
+    retried: boolean;
+    /** Status code of the retried request. */
+    retryStatusCode?: number;
+    /** Whether the retried request succeeded (status below 400). */
+    recovered: boolean;
+    /** Why the request was not retried, or why the retry failed. */
+    error?: string;
+}
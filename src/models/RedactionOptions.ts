@@ -0,0 +1,27 @@
+/**
+ * Built-in detectors of sensitive values inside strings.
+ *
+ * @property email - Email addresses.
+ * @property cardNumber - Payment card numbers (13-19 digits, optionally separated by spaces or dashes, passing the Luhn check).
+ * @property jwt - JSON Web Tokens.
+ */
+export type RedactionDetector = 'email' | 'cardNumber' | 'jwt';
+
+/**
+ * Rules for redacting personal data and secrets from connection data before it is rendered into a prompt.
+ * Redacted values are replaced with placeholders such as `[[REDACTED_EMAIL_1]]`; when the model maps a placeholder
+ * into a target field, the engine substitutes the real value back before the request is sent.
+ *
+ * @property fields - (Optional) Field names whose whole text value is redacted: strings match names case-insensitively,
+ *   regular expressions are tested against the name (default: `Redaction.DEFAULT_FIELDS`, e.g. password, token, secret).
+ * @property patterns - (Optional) Regular expressions whose matches inside strings are redacted.
+ * @property detectors - (Optional) Built-in detectors to apply (default: all).
+ */
+export interface RedactionOptions {
+    /** Field names whose whole value is redacted (default: `Redaction.DEFAULT_FIELDS`). */
+    fields?: Array<string | RegExp>;
+    /** Regular expressions whose matches inside strings are redacted. */
+    patterns?: RegExp[];
+    /** Built-in detectors to apply (default: all). */
+    detectors?: RedactionDetector[];
+}
@@ -0,0 +1,25 @@
+import { ExecutionResult } from "./ExecutionResult";
+import { FlowPlan } from "./FlowPlan";
+
+/**
+ * One user message of an API session and what was executed for it.
+ *
+ * @property index - Position of the turn in the session, starting at 1.
+ * @property message - The user message.
+ * @property plan - The endpoint executions the message was rewritten into; its `issues` explain why nothing was
+ *   executed when the plan could not be built.
+ * @property results - The execution results of the turn, in order (empty when the plan had issues).
+ * @property timestamp - When the turn was completed.
+ */
+export interface SessionTurn {
+    /** Position of the turn in the session, starting at 1. */
+    index: number;
+    /** The user message. */
+    message: string;
+    /** The endpoint executions the message was rewritten into. */
+    plan: FlowPlan;
+    /** The execution results of the turn, in order (empty when the plan had issues). */
+    results: ExecutionResult[];
+    /** When the turn was completed. */
+    timestamp: Date;
+}
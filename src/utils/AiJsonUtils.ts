@@ -0,0 +1,63 @@
+/**
+ * AiJsonUtils
+ *
+ * Utility class for reading JSON out of LLM completions.
+ *
+ * Completions of providers with structured output support are parsed as-is. Free-form completions
+ * are first cleaned by stripping markdown code fences and any prose around the JSON object or array.
+ *
+ * All methods are static and do not require instantiation.
+ */
+export class AiJsonUtils {
+
+  /**
+   * Parses a completion as JSON.
+   *
+   * @param response - The raw completion text.
+   * @param structured - Whether the completion was produced under a structured output constraint (default: false).
+   * @returns The parsed JSON value.
+   * @throws SyntaxError if the completion is not valid JSON.
+   */
+  static parse(response: string, structured: boolean = false): any {
+    return JSON.parse(structured ? response : this.clean(response));
+  }
+
+  /**
+   * Cleans an AI-generated JSON response string by removing code block markers and extracting the JSON object or array.
+   * Only needed for providers without structured output support.
+   * Throws an error if a JSON structure cannot be extracted.
+   *
+   * @param response - The raw AI response string.
+   * @returns The cleaned JSON string.
+   * @throws Error if the response does not contain valid JSON.
+   */
+  static clean(response: string): string {
+    let cleaned = response.trim()
+      .replace(/```json\n?/g, '')
+      .replace(/```\n?/g, '')
+      .trim();
+
+    // Try to extract JSON object first (most common case)
+    const objectMatch = cleaned.match(/^[^{]*({.*})[^}]*$/s);
+    if (objectMatch) {
+      if (!objectMatch[1]) {
+        throw new Error(`AI body response is not valid JSON: ${response}`);
+      }
+
+      return objectMatch[1];
+    }
+
+    // If no object found, try to extract JSON array
+    const arrayMatch = cleaned.match(/^[^[]*(\[.*\])[^]]*$/s);
+    if (arrayMatch) {
+      if (!arrayMatch[1]) {
+        throw new Error(`AI body response is not valid JSON: ${response}`);
+      }
+
+      return arrayMatch[1];
+    }
+
+    // Return as-is if no JSON structure found
+    return cleaned;
+  }
+}
@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+
+/**
+ * CanonicalJson
+ *
+ * Utility class for serializing values to JSON with sorted object keys, so that equal values always
+ * produce the same string and hash. Used to key recorded completions and cached AI resolutions.
+ *
+ * All methods are static and do not require instantiation.
+ */
+export class CanonicalJson {
+
+  /**
+   * Serializes a value to JSON with object keys sorted and undefined properties omitted.
+   *
+   * @param value - The value to serialize.
+   * @returns The canonical JSON string.
+   */
+  static stringify(value: any): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => CanonicalJson.stringify(item)).join(',')}]`;
+    }
+    if (value instanceof Date) {
+      return JSON.stringify(value);
+    }
+    if (value && typeof value === 'object') {
+      return `{${Object.keys(value)
+        .filter(key => value[key] !== undefined)
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${CanonicalJson.stringify(value[key])}`)
+        .join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+
+  /**
+   * Computes a stable hash of a value.
+   *
+   * @param value - The value to hash.
+   * @returns A hex-encoded SHA-256 hash of the canonical JSON.
+   */
+  static hash(value: any): string {
+    return crypto.createHash('sha256').update(CanonicalJson.stringify(value)).digest('hex');
+  }
+}
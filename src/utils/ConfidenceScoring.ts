@@ -0,0 +1,305 @@
+import { FieldConfidence } from "../models/FieldConfidence";
+import { LlmTokenLogprob } from "../models/LlmTokenLogprob";
+
+/**
+ * Character range of a value in a JSON text.
+ */
+interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * ConfidenceScoring
+ *
+ * Utility class for scoring AI-resolved fields. Combines up to three signals per field:
+ * - the model's self-reported confidence,
+ * - the probability of the tokens that spell the value (from logprobs),
+ * - grounding: whether the value appears in connection data or in the natural language input.
+ *
+ * All methods are static and do not require instantiation.
+ */
+export class ConfidenceScoring {
+
+  /**
+   * Relative weight of each signal. Signals that are unavailable for a field are left out and the rest renormalized.
+   */
+  static readonly WEIGHTS = { selfReport: 0.3, logprob: 0.4, grounding: 0.3 };
+
+  /**
+   * Score used when no signal is available for a field.
+   */
+  static readonly UNKNOWN_SCORE = 0.5;
+
+  /**
+   * Scores every top-level field of a resolved section.
+   *
+   * @param section - The request section ('path', 'query' or 'body'); field keys are `<section>.<name>`.
+   * @param values - The validated values of the section.
+   * @param options - The available signals.
+   * @param options.content - The raw completion the values were parsed from, used to locate values for logprobs.
+   * @param options.contentPrefix - The keys leading to the section inside the completion (e.g. ['path'] in combined mode).
+   * @param options.logprobs - Token logprobs of the completion, if returned.
+   * @param options.selfReport - Self-reported confidence by field key, if requested.
+   * @param options.connectionData - Response data of the connected endpoints.
+   * @param options.naturalLanguageInput - The natural language input of the endpoint.
+   * @returns Confidence per field key.
+   */
+  static scoreSection(
+    section: 'path' | 'query' | 'body',
+    values: Record<string, any> | undefined,
+    options: {
+      content?: string;
+      contentPrefix?: string[];
+      logprobs?: LlmTokenLogprob[];
+      selfReport?: Record<string, number>;
+      connectionData: any[];
+      naturalLanguageInput?: string;
+    }
+  ): Record<string, FieldConfidence> {
+    const scores: Record<string, FieldConfidence> = {};
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      return scores;
+    }
+
+    const spans = options.content && options.logprobs?.length ? this.collectSpans(options.content) : undefined;
+    const prefix = options.contentPrefix ?? [];
+
+    for (const [name, value] of Object.entries(values)) {
+      const field = `${section}.${name}`;
+      const span = spans?.get([...prefix, name].join('.'));
+
+      const selfReport = options.selfReport?.[field];
+      const logprob = span && options.logprobs ? this.logprobScore(options.logprobs, span) : undefined;
+      const grounding = this.groundingScore(value, options.connectionData, options.naturalLanguageInput);
+
+      scores[field] = {
+        score: this.combine({ selfReport, logprob, grounding }),
+        ...(selfReport !== undefined ? { selfReport } : {}),
+        ...(logprob !== undefined ? { logprob } : {}),
+        ...(grounding !== undefined ? { grounding } : {})
+      };
+    }
+
+    return scores;
+  }
+
+  /**
+   * Combines the available signals into one score with {@link WEIGHTS}.
+   *
+   * @param signals - The signals; undefined ones are ignored.
+   * @returns The weighted mean of the available signals, or {@link UNKNOWN_SCORE} when none is available.
+   */
+  static combine(signals: { selfReport?: number | undefined; logprob?: number | undefined; grounding?: number | undefined }): number {
+    let total = 0;
+    let weight = 0;
+
+    for (const [signal, signalWeight] of Object.entries(this.WEIGHTS)) {
+      const value = signals[signal as keyof typeof signals];
+      if (value !== undefined) {
+        total += this.clamp(value) * signalWeight;
+        weight += signalWeight;
+      }
+    }
+
+    return weight > 0 ? total / weight : this.UNKNOWN_SCORE;
+  }
+
+  /**
+   * Returns the lowest score of a set of field confidences.
+   *
+   * @param confidence - Confidence per field.
+   * @returns The lowest score, or undefined when there are no fields.
+   */
+  static overall(confidence: Record<string, FieldConfidence>): number | undefined {
+    const scores = Object.values(confidence).map(entry => entry.score);
+    return scores.length > 0 ? Math.min(...scores) : undefined;
+  }
+
+  /**
+   * Computes the geometric mean probability of the tokens overlapping a character range of the completion.
+   * Token offsets are derived by concatenating the token texts, which reproduces the completion.
+   *
+   * @param logprobs - Token logprobs of the completion.
+   * @param span - The character range of the value.
+   * @returns The probability (0-1), or undefined when no token overlaps the range.
+   */
+  static logprobScore(logprobs: LlmTokenLogprob[], span: TextSpan): number | undefined {
+    let offset = 0;
+    let sum = 0;
+    let count = 0;
+
+    for (const entry of logprobs) {
+      const start = offset;
+      offset += entry.token.length;
+      if (offset > span.start && start < span.end) {
+        sum += entry.logprob;
+        count++;
+      }
+    }
+
+    return count > 0 ? Math.exp(sum / count) : undefined;
+  }
+
+  /**
+   * Measures how well a value is backed by the data the model was given: 1 when every primitive in it appears in
+   * connection data, 0.8 when it appears in the natural language input, 0.3 when it appears in neither (the value
+   * was inferred or invented). Objects and arrays average over their primitives.
+   *
+   * @param value - The resolved value.
+   * @param connectionData - Response data of the connected endpoints.
+   * @param naturalLanguageInput - The natural language input of the endpoint.
+   * @returns The grounding score, or undefined for values that cannot be traced (booleans, null, empty containers).
+   */
+  static groundingScore(value: any, connectionData: any[], naturalLanguageInput?: string): number | undefined {
+    const leaves = this.collectPrimitives(value).filter(leaf => typeof leaf === 'string' || typeof leaf === 'number');
+    if (leaves.length === 0) {
+      return undefined;
+    }
+
+    const known = new Set(connectionData.flatMap(data => this.collectPrimitives(data)).map(leaf => String(leaf)));
+    const input = (naturalLanguageInput ?? '').toLowerCase();
+
+    const total = leaves.reduce((sum: number, leaf) => {
+      const text = String(leaf);
+      if (known.has(text)) return sum + 1;
+      if (text.length > 0 && input.includes(text.toLowerCase())) return sum + 0.8;
+      return sum + 0.3;
+    }, 0);
+
+    return total / leaves.length;
+  }
+
+  /**
+   * Reads the self-reported confidence list of a combined response.
+   *
+   * @param entries - The `confidence` array of the response: `[{ field: 'path.id', score: 0.9 }, ...]`.
+   * @returns Score by field key; entries with a missing field or a non-numeric score are skipped.
+   */
+  static parseSelfReport(entries: any): Record<string, number> {
+    const selfReport: Record<string, number> = {};
+    if (!Array.isArray(entries)) {
+      return selfReport;
+    }
+
+    for (const entry of entries) {
+      if (entry && typeof entry.field === 'string' && typeof entry.score === 'number') {
+        selfReport[entry.field] = this.clamp(entry.score);
+      }
+    }
+
+    return selfReport;
+  }
+
+  /**
+   * Collects the character range of every object member in a JSON text, keyed by dotted path (e.g. 'path.id').
+   * Scanning starts at the first '{', so code fences and surrounding text are skipped. Malformed input yields the
+   * ranges found up to the first error.
+   *
+   * @param text - The JSON text.
+   * @returns Character range by path.
+   */
+  static collectSpans(text: string): Map<string, TextSpan> {
+    const spans = new Map<string, TextSpan>();
+    let i = text.indexOf('{');
+    if (i < 0) {
+      return spans;
+    }
+
+    const skipWhitespace = () => {
+      while (i < text.length && /\s/.test(text[i]!)) i++;
+    };
+
+    const skipString = () => {
+      i++; // opening quote
+      while (i < text.length && text[i] !== '"') {
+        i += text[i] === '\\' ? 2 : 1;
+      }
+      i++; // closing quote
+    };
+
+    const readValue = (path: string): void => {
+      skipWhitespace();
+      const start = i;
+      const char = text[i];
+
+      if (char === '{') {
+        i++;
+        skipWhitespace();
+        while (i < text.length && text[i] === '"') {
+          const keyStart = i;
+          skipString();
+          const key = JSON.parse(text.slice(keyStart, i));
+          skipWhitespace();
+          if (text[i] !== ':') throw new SyntaxError(`Expected ':' at ${i}`);
+          i++;
+          readValue(path ? `${path}.${key}` : key);
+          skipWhitespace();
+          if (text[i] !== ',') break;
+          i++;
+          skipWhitespace();
+        }
+        if (text[i] !== '}') throw new SyntaxError(`Expected '}' at ${i}`);
+        i++;
+      } else if (char === '[') {
+        i++;
+        skipWhitespace();
+        while (i < text.length && text[i] !== ']') {
+          readValue('');
+          skipWhitespace();
+          if (text[i] !== ',') break;
+          i++;
+        }
+        if (text[i] !== ']') throw new SyntaxError(`Expected ']' at ${i}`);
+        i++;
+      } else if (char === '"') {
+        skipString();
+      } else {
+        while (i < text.length && !/[\s,}\]]/.test(text[i]!)) i++;
+      }
+
+      if (path) {
+        spans.set(path, { start, end: i });
+      }
+    };
+
+    try {
+      readValue('');
+    } catch {
+      // Keep the spans found before the malformed part
+    }
+
+    return spans;
+  }
+
+  /**
+   * Collects the primitive values nested in a value.
+   *
+   * @param value - The value to walk.
+   * @returns The primitives, depth first.
+   * @private
+   */
+  private static collectPrimitives(value: any): any[] {
+    if (value === null || value === undefined) {
+      return [];
+    }
+    if (Array.isArray(value)) {
+      return value.flatMap(item => this.collectPrimitives(item));
+    }
+    if (typeof value === 'object') {
+      return Object.values(value).flatMap(item => this.collectPrimitives(item));
+    }
+    return [value];
+  }
+
+  /**
+   * Clamps a score to the 0-1 range.
+   *
+   * @param value - The score.
+   * @returns The clamped score.
+   * @private
+   */
+  private static clamp(value: number): number {
+    return Math.min(1, Math.max(0, value));
+  }
+}
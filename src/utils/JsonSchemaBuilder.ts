@@ -0,0 +1,189 @@
+import { ParameterDefinition } from "../models/ParameterDefinition";
+
+/**
+ * Utility class for converting {@link ParameterDefinition} trees into JSON Schema documents
+ * suitable for structured output (JSON Schema response formats) of chat completion APIs.
+ *
+ * Two flavours are produced:
+ * - **strict**: every property is listed in `required`, optional properties are made nullable and
+ *   `additionalProperties` is false at every level, as demanded by strict structured output.
+ *   Validation rules without strict-mode support (min, max, pattern) are described in the property description.
+ * - **non-strict**: optional properties are simply omitted from `required` and validation rules map to
+ *   `minimum`, `maximum` and `pattern`.
+ *
+ * All methods are static and do not require instantiation.
+ */
+export class JsonSchemaBuilder {
+
+  /**
+   * Builds an object schema from a map of parameter definitions.
+   *
+   * @param definitions - Parameter definitions keyed by property name.
+   * @param strict - Whether to produce a strict-mode compatible schema (default: false).
+   * @returns The JSON Schema object.
+   */
+  static fromParameters(definitions: Record<string, ParameterDefinition>, strict: boolean = false): Record<string, any> {
+    const properties: Record<string, any> = {};
+    const required: string[] = [];
+
+    for (const [name, definition] of Object.entries(definitions)) {
+      properties[name] = this.fromParameter(definition, strict, !definition.required);
+      if (strict || definition.required) {
+        required.push(name);
+      }
+    }
+
+    return {
+      type: 'object',
+      properties,
+      required,
+      additionalProperties: false
+    };
+  }
+
+  /**
+   * Builds the schema of a single parameter definition.
+   *
+   * @param definition - The parameter definition to convert.
+   * @param strict - Whether to produce a strict-mode compatible schema (default: false).
+   * @param nullable - Whether null is an accepted value; used for optional properties in strict mode (default: false).
+   * @returns The JSON Schema for the parameter.
+   */
+  static fromParameter(definition: ParameterDefinition, strict: boolean = false, nullable: boolean = false): Record<string, any> {
+    const allowNull = strict && nullable;
+    const schema: Record<string, any> = {
+      type: allowNull ? [definition.type, 'null'] : definition.type
+    };
+
+    const description = this.describe(definition, strict);
+    if (description) {
+      schema['description'] = description;
+    }
+
+    if (definition.validation?.enum) {
+      schema['enum'] = allowNull ? [...definition.validation.enum, null] : [...definition.validation.enum];
+    }
+
+    if (!strict && definition.validation) {
+      if (definition.validation.min !== undefined) {
+        schema[definition.type === 'array' ? 'minItems' : 'minimum'] = definition.validation.min;
+      }
+      if (definition.validation.max !== undefined) {
+        schema[definition.type === 'array' ? 'maxItems' : 'maximum'] = definition.validation.max;
+      }
+      if (definition.validation.pattern) {
+        schema['pattern'] = definition.validation.pattern;
+      }
+    }
+
+    if (definition.type === 'object' && definition.properties) {
+      Object.assign(schema, this.fromParameters(definition.properties, strict), { type: schema['type'] });
+    }
+
+    if (definition.type === 'array' && definition.items) {
+      schema['items'] = this.fromParameter(definition.items, strict);
+    }
+
+    return schema;
+  }
+
+  /**
+   * Checks whether a set of definitions can be expressed as a strict-mode schema.
+   * Strict mode rejects free-form objects and arrays, so every object needs `properties`
+   * and every array needs `items`.
+   *
+   * @param definitions - Parameter definitions keyed by property name.
+   * @returns True if a strict schema can be produced, false otherwise.
+   */
+  static isStrictCompatible(definitions: Record<string, ParameterDefinition>): boolean {
+    return Object.values(definitions).every(definition => this.isDefinitionStrictCompatible(definition));
+  }
+
+  /**
+   * Removes null values produced for optional properties of a strict schema, recursively,
+   * so the result matches what a non-strict response would have omitted.
+   *
+   * @param value - The parsed model output.
+   * @param definitions - Parameter definitions keyed by property name.
+   * @returns A copy of the value without null optional properties.
+   */
+  static removeNullOptionals(value: any, definitions: Record<string, ParameterDefinition>): any {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return value;
+    }
+
+    const cleaned: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const definition = definitions[key];
+      if (item === null && definition && !definition.required) {
+        continue;
+      }
+      cleaned[key] = definition ? this.removeNullOptionalsFromValue(item, definition) : item;
+    }
+
+    return cleaned;
+  }
+
+  /**
+   * Applies {@link removeNullOptionals} to nested object and array values of a single definition.
+   *
+   * @param value - The value of the property.
+   * @param definition - The property's definition.
+   * @returns The cleaned value.
+   * @private
+   */
+  private static removeNullOptionalsFromValue(value: any, definition: ParameterDefinition): any {
+    if (definition.type === 'object' && definition.properties) {
+      return this.removeNullOptionals(value, definition.properties);
+    }
+    if (definition.type === 'array' && definition.items && Array.isArray(value)) {
+      return value.map(item => this.removeNullOptionalsFromValue(item, definition.items!));
+    }
+    return value;
+  }
+
+  /**
+   * Checks a single definition for strict-mode compatibility.
+   *
+   * @param definition - The definition to check.
+   * @returns True if the definition can be expressed in strict mode.
+   * @private
+   */
+  private static isDefinitionStrictCompatible(definition: ParameterDefinition): boolean {
+    if (definition.type === 'object') {
+      return !!definition.properties && this.isStrictCompatible(definition.properties);
+    }
+    if (definition.type === 'array') {
+      return !!definition.items && this.isDefinitionStrictCompatible(definition.items);
+    }
+    return true;
+  }
+
+  /**
+   * Builds the description of a property, including validation rules that strict mode cannot express.
+   *
+   * @param definition - The parameter definition.
+   * @param strict - Whether the schema is strict.
+   * @returns The description, or undefined if there is nothing to describe.
+   * @private
+   */
+  private static describe(definition: ParameterDefinition, strict: boolean): string | undefined {
+    const parts: string[] = [];
+
+    if (definition.description) {
+      parts.push(definition.description);
+    }
+
+    if (strict && definition.validation) {
+      if (definition.validation.min !== undefined) parts.push(`Minimum: ${definition.validation.min}.`);
+      if (definition.validation.max !== undefined) parts.push(`Maximum: ${definition.validation.max}.`);
+      if (definition.validation.pattern) parts.push(`Must match pattern: ${definition.validation.pattern}.`);
+    }
+
+    if (strict && !definition.required) {
+      parts.push('Use null if the value cannot be determined.');
+    }
+
+    return parts.length > 0 ? parts.join(' ') : undefined;
+  }
+}
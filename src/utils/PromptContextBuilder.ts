@@ -0,0 +1,172 @@
+import { HttpResponseUtils } from "./HttpResponseUtils";
+
+/**
+ * PromptContextBuilder
+ *
+ * Utility class for fitting connection data into a token budget before it is rendered into a prompt.
+ * Token counts are estimated from the serialized JSON (about four characters per token). While the data of all
+ * connections exceeds the budget, the largest connection is shrunk one step further:
+ *
+ * 1. fields not mapped by the connection are dropped, keeping the `sourceField` path and fields named in the
+ *    mapping text;
+ * 2. long strings and deep nesting are truncated with `HttpResponseUtils`, in two increasingly strict steps;
+ * 3. the data is replaced with a short omission note.
+ *
+ * All methods are static and do not require instantiation.
+ */
+export class PromptContextBuilder {
+
+  /**
+   * Budget applied when none is configured, in estimated tokens for the connection data of one prompt.
+   */
+  static readonly DEFAULT_BUDGET = 8000;
+
+  /**
+   * Average number of characters per token used for estimates.
+   */
+  static readonly CHARS_PER_TOKEN = 4;
+
+  /**
+   * Estimates the number of tokens of a text.
+   *
+   * @param text - The text.
+   * @returns The estimated token count.
+   */
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / this.CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Shrinks the response data of connections until their serialized JSON fits the budget, or every connection is
+   * shrunk as far as it goes.
+   *
+   * @param connections - The connections, with their source field, mapping text and response data.
+   * @param budget - Maximum estimated tokens for all connection data together (default: {@link DEFAULT_BUDGET}).
+   * @returns The serialized (pretty-printed) response data of each connection in input order, the estimated total,
+   *   and the number of shrinking steps applied to each connection (0 when it was sent unchanged).
+   */
+  static fitToBudget(
+    connections: Array<{ sourceField: string; mapping: string; responseData: any }>,
+    budget: number = this.DEFAULT_BUDGET
+  ): { responseData: string[]; tokens: number; reductions: number[] } {
+    const stages = connections.map(connection => this.buildStages(connection));
+    const levels = connections.map(() => 0);
+    const serialized = stages.map(steps => steps[0]!);
+    const tokens = serialized.map(text => this.estimateTokens(text));
+    const total = () => tokens.reduce((sum, count) => sum + count, 0);
+
+    while (total() > budget) {
+      // Shrink the largest connection that can still be shrunk
+      let candidate = -1;
+      for (let i = 0; i < connections.length; i++) {
+        if (levels[i]! < stages[i]!.length - 1 && (candidate < 0 || tokens[i]! > tokens[candidate]!)) {
+          candidate = i;
+        }
+      }
+      if (candidate < 0) {
+        break;
+      }
+
+      levels[candidate]!++;
+      serialized[candidate] = stages[candidate]![levels[candidate]!]!;
+      tokens[candidate] = this.estimateTokens(serialized[candidate]!);
+    }
+
+    return { responseData: serialized, tokens: total(), reductions: levels };
+  }
+
+  /**
+   * Keeps the fields of a value that a connection maps: the fields along `sourceField` (array indices ignored) and
+   * the fields whose name appears in the mapping text, each with everything nested below it.
+   *
+   * @param value - The response data.
+   * @param sourceField - The connection's source path.
+   * @param mapping - The connection's natural language mapping.
+   * @returns The pruned copy, or undefined when no field is mapped.
+   */
+  static keepMappedFields(value: any, sourceField: string, mapping: string): any {
+    const sourcePath = this.fieldNames(sourceField);
+    const words = new Set(mapping.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length >= 3).map(word => this.singular(word)));
+
+    const mentioned = (key: string): boolean =>
+      key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z0-9]+/)
+        .some(part => part.length >= 3 && words.has(this.singular(part)));
+
+    const walk = (current: any, depth: number): any => {
+      if (current === null || typeof current !== 'object') {
+        return undefined;
+      }
+
+      const kept: Record<string, any> = {};
+      for (const [key, item] of Object.entries(current)) {
+        if (/^\d+$/.test(key)) {
+          // Array items (and items of arrays truncated to objects) are kept when they contain a mapped field
+          const pruned = walk(item, depth);
+          if (pruned !== undefined) kept[key] = pruned;
+        } else if ((sourcePath.length === depth + 1 && sourcePath[depth] === key) || mentioned(key)) {
+          kept[key] = item;
+        } else if (sourcePath[depth] === key) {
+          const pruned = walk(item, depth + 1);
+          if (pruned !== undefined) kept[key] = pruned;
+        }
+      }
+
+      if (Object.keys(kept).length === 0) {
+        return undefined;
+      }
+      return Array.isArray(current) ? Object.values(kept) : kept;
+    };
+
+    return walk(value, 0);
+  }
+
+  /**
+   * Builds the serialized data of every shrinking step of a connection, from unchanged to omitted. Steps that would
+   * not make the data smaller are skipped.
+   *
+   * @param connection - The connection.
+   * @returns The serialized data of each step.
+   * @private
+   */
+  private static buildStages(connection: { sourceField: string; mapping: string; responseData: any }): string[] {
+    const full = JSON.stringify(connection.responseData ?? null, null, 2);
+    const mapped = this.keepMappedFields(connection.responseData, connection.sourceField, connection.mapping) ?? connection.responseData;
+
+    const candidates = [
+      JSON.stringify(mapped ?? null, null, 2),
+      JSON.stringify(HttpResponseUtils.createPreview(mapped, { maxArrayLength: 1, maxStringLength: 200, maxDepth: 6, includeMetadata: false }) ?? null, null, 2),
+      JSON.stringify(HttpResponseUtils.createPreview(mapped, { maxArrayLength: 1, maxStringLength: 40, maxDepth: 3, includeMetadata: false }) ?? null, null, 2),
+      JSON.stringify(`[Omitted to fit the prompt budget: about ${this.estimateTokens(full)} tokens]`)
+    ];
+
+    const stages = [full];
+    for (const candidate of candidates) {
+      if (candidate.length < stages[stages.length - 1]!.length) {
+        stages.push(candidate);
+      }
+    }
+    return stages;
+  }
+
+  /**
+   * Splits a dot path into field names, leaving out array indices.
+   *
+   * @param path - The path, e.g. 'items.0.id'.
+   * @returns The field names, e.g. ['items', 'id'].
+   * @private
+   */
+  private static fieldNames(path: string): string[] {
+    return path.split('.').filter(part => part !== '' && !/^\d+$/.test(part));
+  }
+
+  /**
+   * Reduces a lowercase word to a naive singular form, so that 'products' matches 'product'.
+   *
+   * @param word - The word.
+   * @returns The word without a trailing 's'.
+   * @private
+   */
+  private static singular(word: string): string {
+    return word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word;
+  }
+}
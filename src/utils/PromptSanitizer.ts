@@ -0,0 +1,159 @@
+/**
+ * PromptSanitizer
+ *
+ * Utility class for defending AI resolution against prompt injection through connection data. Upstream response
+ * bodies are untrusted: they are escaped before being placed between the prompt's data delimiters, instruction-like
+ * strings can be removed from them, and resolved values can be checked against the data the model was given.
+ *
+ * All methods are static and do not require instantiation.
+ */
+export class PromptSanitizer {
+
+  /**
+   * Patterns of text that addresses the model rather than describing data.
+   */
+  static readonly INSTRUCTION_PATTERNS: RegExp[] = [
+    /\b(ignore|disregard|forget|override)\b[^.\n]{0,40}\b(instructions?|prompts?|rules|directions)\b/i,
+    /\b(system|developer)\s+(prompt|message|instructions?)\b/i,
+    /\byou\s+are\s+(now|no\s+longer)\b/i,
+    /\b(new|updated|additional)\s+instructions?\s*:/i,
+    /^\s*(system|assistant|developer)\s*:/im,
+    /<\/?\s*(system|instructions?|prompt|untrusted-data)\b[^>]*>/i
+  ];
+
+  /**
+   * Replacement for strings removed by {@link stripInstructions}.
+   */
+  static readonly REMOVED_PLACEHOLDER = '[removed: instruction-like content]';
+
+  /**
+   * Escapes serialized JSON for placement inside the prompt's `<untrusted-data>` delimiters. Angle brackets and
+   * backticks can only occur inside JSON strings, where they are replaced with their `\u` escapes: the JSON still
+   * parses to the same value, but cannot close the delimiter or the surrounding code fence.
+   *
+   * @param json - Serialized JSON.
+   * @returns The escaped JSON.
+   */
+  static escapeData(json: string): string {
+    return json
+      .replace(/</g, '\\u003c')
+      .replace(/>/g, '\\u003e')
+      .replace(/`/g, '\\u0060');
+  }
+
+  /**
+   * Checks whether a string contains instruction-like content.
+   *
+   * @param text - The text to check.
+   * @returns True if any of {@link INSTRUCTION_PATTERNS} matches.
+   */
+  static isInstructionLike(text: string): boolean {
+    return this.INSTRUCTION_PATTERNS.some(pattern => pattern.test(text));
+  }
+
+  /**
+   * Replaces every instruction-like string nested in a value with {@link REMOVED_PLACEHOLDER}.
+   *
+   * @param value - The value to clean; it is not modified.
+   * @param path - (Optional) Path of the value, prefixed to the reported paths.
+   * @returns The cleaned copy and the dotted paths of the replaced strings (array items by index).
+   */
+  static stripInstructions(value: any, path: string = ''): { value: any; strippedPaths: string[] } {
+    const strippedPaths: string[] = [];
+
+    const walk = (current: any, currentPath: string): any => {
+      if (typeof current === 'string') {
+        if (this.isInstructionLike(current)) {
+          strippedPaths.push(currentPath);
+          return this.REMOVED_PLACEHOLDER;
+        }
+        return current;
+      }
+      if (Array.isArray(current)) {
+        return current.map((item, index) => walk(item, this.joinPath(currentPath, String(index))));
+      }
+      if (current && typeof current === 'object') {
+        return Object.fromEntries(
+          Object.entries(current).map(([key, item]) => [key, walk(item, this.joinPath(currentPath, key))])
+        );
+      }
+      return current;
+    };
+
+    return { value: walk(value, path), strippedPaths };
+  }
+
+  /**
+   * Lists the resolved values that trace back to none of the model's inputs. A string or number traces back when it
+   * equals a value of the connection data or of `knownValues`, or appears in the natural language input
+   * (case-insensitive). Strings of three or more characters also trace back when they appear inside a connection
+   * data string. Booleans, null and empty strings are not checked.
+   *
+   * @param section - The request section ('path', 'query' or 'body'); reported paths start with it.
+   * @param values - The resolved values of the section.
+   * @param sources - The data the model was given.
+   * @param sources.connectionData - Response data of the connected endpoints.
+   * @param sources.naturalLanguageInput - The natural language input of the endpoint.
+   * @param sources.knownValues - Values allowed by the schema (defaults, examples, enums).
+   * @returns The dotted paths of the untraceable values, e.g. 'body.items.0.sku'.
+   */
+  static findUntraceable(
+    section: 'path' | 'query' | 'body',
+    values: any,
+    sources: { connectionData: any[]; naturalLanguageInput?: string; knownValues?: any[] }
+  ): string[] {
+    const known = new Set([...sources.connectionData, ...(sources.knownValues ?? [])]
+      .flatMap(data => this.collectLeaves(data, ''))
+      .map(leaf => String(leaf.value)));
+    const knownStrings = sources.connectionData
+      .flatMap(data => this.collectLeaves(data, ''))
+      .filter(leaf => typeof leaf.value === 'string')
+      .map(leaf => (leaf.value as string).toLowerCase());
+    const input = (sources.naturalLanguageInput ?? '').toLowerCase();
+
+    return this.collectLeaves(values, section)
+      .filter(leaf => (typeof leaf.value === 'string' && leaf.value.length > 0) || typeof leaf.value === 'number')
+      .filter(leaf => {
+        const text = String(leaf.value);
+        const lower = text.toLowerCase();
+        if (known.has(text) || input.includes(lower)) {
+          return false;
+        }
+        return !(typeof leaf.value === 'string' && lower.length >= 3 && knownStrings.some(candidate => candidate.includes(lower)));
+      })
+      .map(leaf => leaf.path);
+  }
+
+  /**
+   * Collects the primitive values nested in a value with their dotted paths.
+   *
+   * @param value - The value to walk.
+   * @param path - Path of the value.
+   * @returns The primitives, depth first.
+   * @private
+   */
+  private static collectLeaves(value: any, path: string): Array<{ path: string; value: any }> {
+    if (value === null || value === undefined) {
+      return [];
+    }
+    if (Array.isArray(value)) {
+      return value.flatMap((item, index) => this.collectLeaves(item, this.joinPath(path, String(index))));
+    }
+    if (typeof value === 'object') {
+      return Object.entries(value).flatMap(([key, item]) => this.collectLeaves(item, this.joinPath(path, key)));
+    }
+    return [{ path, value }];
+  }
+
+  /**
+   * Appends a key to a dotted path.
+   *
+   * @param path - The parent path, possibly empty.
+   * @param key - The key to append.
+   * @returns The joined path.
+   * @private
+   */
+  private static joinPath(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+  }
+}
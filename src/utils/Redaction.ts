@@ -0,0 +1,214 @@
+import { RedactionDetector, RedactionOptions } from "../models/RedactionOptions";
+
+/**
+ * Redaction
+ *
+ * Utility class for replacing personal data and secrets with reversible placeholders. Values are redacted by field
+ * name, by regular expression, or by built-in detectors (emails, card numbers, JWTs). Each distinct value gets one
+ * placeholder such as `[[REDACTED_EMAIL_1]]`, recorded in a placeholder map so that the real value can be
+ * substituted back into anything produced from the redacted data.
+ *
+ * All methods are static and do not require instantiation.
+ */
+export class Redaction {
+
+  /**
+   * Field names redacted when {@link RedactionOptions.fields} is not set.
+   */
+  static readonly DEFAULT_FIELDS: RegExp[] = [
+    /^pass$|pass(word|wd)/i,
+    /secret/i,
+    // Matches accessToken or refresh_token, not usage counters such as totalTokens or maxTokens
+    /token$/i,
+    /api[-_]?key/i,
+    /authorization/i,
+    /^(ssn|social[-_]?security[-_]?number)$/i
+  ];
+
+  /**
+   * Pattern and placeholder label of each built-in detector.
+   */
+  static readonly DETECTORS: Record<RedactionDetector, { label: string; pattern: RegExp; validate?: (match: string) => boolean }> = {
+    email: {
+      label: 'EMAIL',
+      pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+    },
+    cardNumber: {
+      label: 'CARD',
+      pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+      validate: match => Redaction.passesLuhn(match.replace(/\D/g, ''))
+    },
+    jwt: {
+      label: 'JWT',
+      pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g
+    }
+  };
+
+  /**
+   * Matches placeholders produced by {@link redact}.
+   */
+  static readonly PLACEHOLDER_PATTERN = /\[\[REDACTED_[A-Z]+_\d+\]\]/g;
+
+  /**
+   * Replaces sensitive values nested in a value with placeholders.
+   *
+   * @param value - The value to redact; it is not modified.
+   * @param options - The redaction rules.
+   * @param placeholders - Placeholder map to record into; shared across calls so equal values get the same placeholder.
+   * @returns The redacted copy.
+   */
+  static redact(value: any, options: RedactionOptions, placeholders: Map<string, any>): any {
+    const fields = options.fields ?? this.DEFAULT_FIELDS;
+    const detectors = (options.detectors ?? (Object.keys(this.DETECTORS) as RedactionDetector[])).map(name => this.DETECTORS[name]);
+    const patterns = [
+      ...detectors,
+      ...(options.patterns ?? []).map(pattern => ({ label: 'PATTERN', pattern, validate: undefined }))
+    ];
+
+    const walk = (current: any, key: string | undefined): any => {
+      // Only text is redacted by field name: placeholders for numbers or booleans such as 1 or true would also conceal
+      // unrelated fields holding the same value
+      if (key !== undefined && typeof current === 'string' && this.matchesField(key, fields)) {
+        return this.placeholderFor(current, 'FIELD', placeholders);
+      }
+      if (typeof current === 'string') {
+        return patterns.reduce((text, { label, pattern, validate }) =>
+          text.replace(this.globalPattern(pattern), match =>
+            !validate || validate(match) ? this.placeholderFor(match, label, placeholders) : match
+          ), current);
+      }
+      if (Array.isArray(current)) {
+        return current.map(item => walk(item, key));
+      }
+      if (current && typeof current === 'object') {
+        return Object.fromEntries(Object.entries(current).map(([name, item]) => [name, walk(item, name)]));
+      }
+      return current;
+    };
+
+    return walk(value, undefined);
+  }
+
+  /**
+   * Substitutes the real values back for placeholders. A string that is exactly one placeholder becomes the original
+   * value (keeping its type); placeholders inside longer strings are replaced with the original value as text.
+   * Unknown placeholders are left as they are.
+   *
+   * @param value - The value to restore; it is not modified.
+   * @param placeholders - The placeholder map filled by {@link redact}.
+   * @returns The restored copy.
+   */
+  static restore(value: any, placeholders: Map<string, any>): any {
+    if (placeholders.size === 0) {
+      return value;
+    }
+    if (typeof value === 'string') {
+      if (placeholders.has(value)) {
+        return placeholders.get(value);
+      }
+      return value.replace(this.globalPattern(this.PLACEHOLDER_PATTERN), placeholder =>
+        placeholders.has(placeholder) ? String(placeholders.get(placeholder)) : placeholder
+      );
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.restore(item, placeholders));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, this.restore(item, placeholders)]));
+    }
+    return value;
+  }
+
+  /**
+   * Replaces strings that were redacted with their placeholders again, e.g. before a resolution is cached, so that
+   * secrets are not stored and a later run restores its own values. Other values are kept as they are.
+   *
+   * @param value - The value to conceal; it is not modified.
+   * @param placeholders - The placeholder map filled by {@link redact}.
+   * @returns The concealed copy.
+   */
+  static conceal(value: any, placeholders: Map<string, any>): any {
+    if (placeholders.size === 0) {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.conceal(item, placeholders));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, this.conceal(item, placeholders)]));
+    }
+    if (typeof value !== 'string') {
+      return value;
+    }
+    for (const [placeholder, original] of placeholders) {
+      if (original === value) {
+        return placeholder;
+      }
+    }
+    return value;
+  }
+
+  /**
+   * Checks a digit string with the Luhn checksum used by payment card numbers.
+   *
+   * @param digits - The digits.
+   * @returns True if the checksum is valid.
+   */
+  static passesLuhn(digits: string): boolean {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      let digit = Number(digits[digits.length - 1 - i]);
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    }
+    return digits.length > 0 && sum % 10 === 0;
+  }
+
+  /**
+   * Returns the placeholder of a value, creating one when the value has none yet.
+   *
+   * @param value - The sensitive value.
+   * @param label - Label of the rule that matched, e.g. 'EMAIL'.
+   * @param placeholders - The placeholder map.
+   * @returns The placeholder.
+   * @private
+   */
+  private static placeholderFor(value: any, label: string, placeholders: Map<string, any>): string {
+    for (const [placeholder, original] of placeholders) {
+      if (original === value) {
+        return placeholder;
+      }
+    }
+
+    const count = [...placeholders.keys()].filter(placeholder => placeholder.startsWith(`[[REDACTED_${label}_`)).length;
+    const placeholder = `[[REDACTED_${label}_${count + 1}]]`;
+    placeholders.set(placeholder, value);
+    return placeholder;
+  }
+
+  /**
+   * Checks whether a field name matches any of the field rules.
+   *
+   * @param name - The field name.
+   * @param fields - Names (case-insensitive) and patterns.
+   * @returns True if the field is redacted.
+   * @private
+   */
+  private static matchesField(name: string, fields: Array<string | RegExp>): boolean {
+    return fields.some(field => typeof field === 'string' ? field.toLowerCase() === name.toLowerCase() : name.search(field) >= 0);
+  }
+
+  /**
+   * Returns a global copy of a pattern, so that `replace` handles every match and shared patterns keep no state.
+   *
+   * @param pattern - The pattern.
+   * @returns A new pattern with the 'g' flag.
+   * @private
+   */
+  private static globalPattern(pattern: RegExp): RegExp {
+    return new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  }
+}
@@ -0,0 +1,125 @@
+import { AiCallRecord } from "../models/AiCallRecord";
+import { AiUsageSummary } from "../models/AiUsageSummary";
+import { ExecutionResult } from "../models/ExecutionResult";
+import { FlowUsageReport } from "../models/FlowUsageReport";
+import { LlmUsage } from "../models/LlmUsage";
+import { ModelPrice, ModelPriceTable } from "../models/ModelPrice";
+
+/**
+ * UsageAccounting
+ *
+ * Utility class for pricing model calls and rolling up token usage, latency and cost.
+ *
+ * All methods are static and do not require instantiation.
+ */
+export class UsageAccounting {
+
+  /**
+   * Default prices in USD per million tokens for common OpenAI models. Prices change over time and
+   * Azure deployments are often renamed, so pass your own table to the engine for accurate budgets.
+   */
+  static readonly DEFAULT_PRICES: ModelPriceTable = {
+    'gpt-4.1': { inputPerMillion: 2.0, outputPerMillion: 8.0 },
+    'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+    'gpt-4.1-nano': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+    'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10.0 },
+    'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 }
+  };
+
+  /**
+   * Finds the price of a model: the exact name first, then the longest table key the name starts with.
+   *
+   * @param model - The model or deployment name.
+   * @param prices - The price table.
+   * @returns The price, or undefined when the model is not in the table.
+   */
+  static priceFor(model: string, prices: ModelPriceTable): ModelPrice | undefined {
+    if (prices[model]) {
+      return prices[model];
+    }
+
+    const prefix = Object.keys(prices)
+      .filter(key => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return prefix ? prices[prefix] : undefined;
+  }
+
+  /**
+   * Estimates the cost of a completion.
+   *
+   * @param usage - The reported token usage, if any.
+   * @param model - The model or deployment that produced the completion.
+   * @param prices - The price table.
+   * @returns The estimated cost, or undefined when usage or the model price is unknown.
+   */
+  static estimateCost(usage: LlmUsage | undefined, model: string, prices: ModelPriceTable): number | undefined {
+    const price = this.priceFor(model, prices);
+    if (!usage || !price) {
+      return undefined;
+    }
+
+    return (usage.promptTokens * price.inputPerMillion + usage.completionTokens * price.outputPerMillion) / 1_000_000;
+  }
+
+  /**
+   * Totals a set of model calls.
+   *
+   * @param calls - The calls to total.
+   * @returns The summary (all zeros for no calls).
+   */
+  static summarize(calls: AiCallRecord[]): AiUsageSummary {
+    const summary: AiUsageSummary = {
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      latencyMs: 0,
+      cost: 0,
+      unpricedCalls: 0
+    };
+
+    for (const call of calls) {
+      summary.calls++;
+      summary.promptTokens += call.usage?.promptTokens ?? 0;
+      summary.completionTokens += call.usage?.completionTokens ?? 0;
+      summary.totalTokens += call.usage?.totalTokens ?? 0;
+      summary.latencyMs += call.latencyMs;
+      if (call.cost !== undefined) {
+        summary.cost += call.cost;
+      } else {
+        summary.unpricedCalls++;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Rolls up the AI usage of a flow run, in total and per endpoint and model.
+   *
+   * @param results - The execution results of the run.
+   * @returns The usage report.
+   */
+  static rollup(results: ExecutionResult[]): FlowUsageReport {
+    const allCalls: AiCallRecord[] = [];
+    const callsByEndpoint = new Map<string, AiCallRecord[]>();
+    const callsByModel = new Map<string, AiCallRecord[]>();
+
+    for (const result of results) {
+      for (const call of result.ai?.calls ?? []) {
+        allCalls.push(call);
+        callsByEndpoint.set(result.endpointId, [...(callsByEndpoint.get(result.endpointId) ?? []), call]);
+        callsByModel.set(call.model, [...(callsByModel.get(call.model) ?? []), call]);
+      }
+    }
+
+    const byEndpoint: Record<string, AiUsageSummary> = {};
+    callsByEndpoint.forEach((calls, endpointId) => byEndpoint[endpointId] = this.summarize(calls));
+
+    const byModel: Record<string, AiUsageSummary> = {};
+    callsByModel.forEach((calls, model) => byModel[model] = this.summarize(calls));
+
+    return { total: this.summarize(allCalls), byEndpoint, byModel };
+  }
+}
@@ -0,0 +1,17 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AOAI } from '../src/ai/AOAI';
+
+describe('AOAI', () => {
+  const connection = { endpoint: 'https://example.openai.azure.com', apiKey: 'key' };
+
+  it('uses the model setting as deployment', () => {
+    assert.equal(new AOAI({ ...connection, model: 'o3-mini' }).defaultModel, 'o3-mini');
+    assert.equal(new AOAI({ ...connection, model: 'o3-mini', deployment: 'reasoning' }).defaultModel, 'reasoning');
+  });
+
+  it('requests logprobs only when enabled', () => {
+    assert.equal(new AOAI(connection).supportsLogprobs, false);
+    assert.equal(new AOAI({ ...connection, logprobs: true }).supportsLogprobs, true);
+  });
+});
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { ApiAgent } from '../src/execution/ApiAgent';
+import { ApiExecutionEngine } from '../src/execution/ApiExecutionEngine';
+import { ApiEndpoint } from '../src/models/ApiEndpoint';
+import { ScriptedLlmProvider } from '../src/ai/ScriptedLlmProvider';
+import { silenceConsole, startServer, TestServer } from './helpers';
+
+describe('ApiAgent', () => {
+  let server: TestServer;
+
+  before(async () => {
+    silenceConsole();
+    server = await startServer(() => ({ body: { id: 7, name: 'Lamp' } }));
+  });
+
+  after(() => server.close());
+
+  it('accounts the usage of its own model calls', async () => {
+    const usage = { promptTokens: 100, completionTokens: 20, totalTokens: 120 };
+    const llm = new ScriptedLlmProvider([
+      request => ({
+        content: '',
+        model: 'scripted',
+        toolCalls: [{ id: 'call-1', name: request.tools![0]!.name, arguments: '{"path": {"id": 7}}' }],
+        usage
+      }),
+      { content: 'Item 7 is a lamp.', model: 'scripted', usage }
+    ]);
+    const endpoint = new ApiEndpoint({
+      id: 'getItem',
+      name: 'Get item',
+      method: 'GET',
+      baseUrl: server.url,
+      path: '/items/{id}',
+      pathParams: { id: { name: 'id', type: 'number', required: true } }
+    });
+
+    const run = await new ApiAgent(new ApiExecutionEngine(llm), [endpoint]).run('What is item 7?');
+
+    assert.equal(run.answer, 'Item 7 is a lamp.');
+    assert.equal(server.requests.at(-1)?.path, '/items/7');
+    assert.deepEqual(run.calls.map(call => call.purpose), ['agent', 'agent']);
+    assert.equal(run.usage.totalTokens, 240);
+  });
+});
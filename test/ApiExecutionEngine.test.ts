@@ -0,0 +1,250 @@
+import assert from 'node:assert/strict';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { ApiExecutionEngine } from '../src/execution/ApiExecutionEngine';
+import { ApiEndpoint } from '../src/models/ApiEndpoint';
+import { ApprovalRequest } from '../src/models/ApprovalRequest';
+import { ScriptedLlmProvider } from '../src/ai/ScriptedLlmProvider';
+import { CassetteLlmProvider } from '../src/ai/CassetteLlmProvider';
+import { LlmScheduler } from '../src/ai/LlmScheduler';
+import { InMemoryResolutionCache } from '../src/ai/InMemoryResolutionCache';
+import { silenceConsole, startServer, TestServer } from './helpers';
+
+describe('ApiExecutionEngine', () => {
+  let server: TestServer;
+
+  before(async () => {
+    silenceConsole();
+    server = await startServer(request => request.path === '/items/99'
+      ? { status: 404, body: { error: 'Item 99 not found' } }
+      : { body: { path: request.path, query: request.query } });
+  });
+
+  after(() => server.close());
+
+  const listItems = () => new ApiEndpoint({
+    id: 'listItems',
+    name: 'List items',
+    method: 'GET',
+    baseUrl: server.url,
+    path: '/items',
+    queryParams: {
+      tag: { name: 'tag', type: 'string', required: false },
+      limit: { name: 'limit', type: 'number', required: false }
+    },
+    naturalLanguageInput: 'List the items tagged a, at most 5'
+  });
+
+  const getItem = (method: 'GET' | 'DELETE' = 'GET') => new ApiEndpoint({
+    id: 'getItem',
+    name: 'Get item',
+    method,
+    baseUrl: server.url,
+    path: '/items/{id}',
+    pathParams: { id: { name: 'id', type: 'number', required: true } },
+    naturalLanguageInput: 'Get item 99'
+  });
+
+  describe('resolution', () => {
+    it('does not reuse an earlier resolution as input of the next run', async () => {
+      const llm = new ScriptedLlmProvider([
+        '{"query": {"tag": "a", "limit": 5}, "confidence": []}',
+        '{"query": {"tag": "b"}, "confidence": []}'
+      ]);
+      const engine = new ApiExecutionEngine(llm);
+      const endpoint = listItems();
+
+      await engine.executeEndpoint(endpoint);
+      endpoint.naturalLanguageInput = 'List the items tagged b';
+      const second = await engine.executeEndpoint(endpoint);
+
+      assert.equal(second.statusCode, 200);
+      assert.deepEqual(server.requests.at(-1)?.query, { tag: 'b' });
+      assert.deepEqual(endpoint.aiMapping?.lastResolution?.queryParams, { tag: 'b' });
+      assert.equal(endpoint.aiMapping?.resolvedParams, undefined);
+      assert.doesNotMatch(llm.requests[1]!.messages.at(-1)!.content, /"limit": 5/);
+    });
+
+    it('answers repeated questions from the resolution cache', async () => {
+      const llm = new ScriptedLlmProvider(['{"query": {"tag": "a", "limit": 5}, "confidence": []}']);
+      const engine = new ApiExecutionEngine(llm, { resolutionCache: new InMemoryResolutionCache() });
+
+      await engine.executeEndpoint(listItems());
+      const endpoint = listItems();
+      const cached = await engine.executeEndpoint(endpoint);
+
+      assert.equal(cached.success, true);
+      assert.equal(llm.requests.length, 1);
+      assert.equal(endpoint.aiMapping?.source, 'cache');
+      assert.deepEqual(server.requests.at(-1)?.query, { tag: 'a', limit: '5' });
+    });
+
+    it('sends invalid responses back for correction', async () => {
+      const llm = new ScriptedLlmProvider([
+        '{"query": {"tag": 7}, "confidence": []}',
+        '{"query": {"tag": "a"}, "confidence": []}'
+      ]);
+
+      const result = await new ApiExecutionEngine(llm).executeEndpoint(listItems());
+
+      assert.equal(result.success, true);
+      assert.deepEqual(result.ai?.attempts.map(attempt => attempt.valid), [false, true]);
+      assert.equal(llm.requests.length, 2);
+      assert.match(llm.requests[1]!.messages.map(message => message.content).join('\n'), /"tag": 7/);
+    });
+  });
+
+  describe('recovery', () => {
+    it('retries once with the corrected values', async () => {
+      const llm = new ScriptedLlmProvider(['{"path": {"id": 99}, "confidence": []}', '{"path": {"id": 42}}']);
+
+      const result = await new ApiExecutionEngine(llm).executeEndpoint(getItem(), { aiRecovery: true });
+
+      assert.equal(result.statusCode, 200);
+      assert.equal(result.recovery?.[0]?.recovered, true);
+      assert.deepEqual(result.recovery?.[0]?.corrected?.pathParams, { id: 42 });
+    });
+
+    it('rejects untraceable corrections when prompt safety rejects untraceable values', async () => {
+      const llm = new ScriptedLlmProvider(['{"path": {"id": 99}, "confidence": []}', '{"path": {"id": 42}}']);
+      const sent = server.requests.length;
+
+      const result = await new ApiExecutionEngine(llm).executeEndpoint(getItem(), {
+        aiRecovery: true,
+        promptSafety: { untraceable: 'reject' }
+      });
+
+      assert.equal(result.statusCode, 404);
+      assert.equal(result.recovery?.[0]?.retried, false);
+      assert.match(result.recovery?.[0]?.error ?? '', /do not trace back/);
+      assert.equal(server.requests.length, sent + 1);
+    });
+
+    it('holds corrections at the approval gate', async () => {
+      const llm = new ScriptedLlmProvider(['{"path": {"id": 99}, "confidence": []}', '{"path": {"id": 42}}']);
+      const reviewed: ApprovalRequest[] = [];
+      const handler = {
+        approve: async (request: ApprovalRequest) => {
+          reviewed.push(request);
+          return reviewed.length === 1 ? { approved: true } : { approved: false, reason: 'wrong item' };
+        }
+      };
+
+      const result = await new ApiExecutionEngine(llm).executeEndpoint(getItem(), {
+        aiRecovery: true,
+        approval: { handler, threshold: 1.1 }
+      });
+
+      assert.equal(reviewed.length, 2);
+      assert.deepEqual(reviewed[1]!.resolution.pathParams, { id: 42 });
+      assert.equal(result.statusCode, 404);
+      assert.match(result.recovery?.[0]?.error ?? '', /rejected at the approval gate: wrong item/);
+    });
+
+    it('does not recover endpoints that require consensus', async () => {
+      const llm = new ScriptedLlmProvider([], '{"path": {"id": 99}, "confidence": []}');
+
+      const result = await new ApiExecutionEngine(llm).executeEndpoint(getItem('DELETE'), {
+        aiRecovery: true,
+        consensus: { models: ['model-a', 'model-b'] }
+      });
+
+      assert.equal(result.statusCode, 404);
+      assert.equal(llm.requests.length, 2);
+      assert.match(result.recovery?.[0]?.error ?? '', /consensus/);
+    });
+  });
+
+  describe('consensus', () => {
+    it('rejects a single sample, which always agrees with itself', async () => {
+      const llm = new ScriptedLlmProvider([], '{"path": {"id": 99}, "confidence": []}');
+
+      const result = await new ApiExecutionEngine(llm).executeEndpoint(getItem('DELETE'), { consensus: { samples: 1 } });
+
+      assert.equal(result.success, false);
+      assert.match(result.error ?? '', /at least 2 samples/);
+      assert.equal(llm.requests.length, 0);
+    });
+
+    it('rejects a model list without 2 distinct models', async () => {
+      const llm = new ScriptedLlmProvider([], '{"path": {"id": 99}, "confidence": []}');
+
+      const result = await new ApiExecutionEngine(llm).executeEndpoint(getItem('DELETE'), {
+        consensus: { models: ['model-a', 'model-a'] }
+      });
+
+      assert.equal(result.success, false);
+      assert.match(result.error ?? '', /at least 2 distinct models/);
+    });
+
+    it('rejects samples of one model from a cassette wrapped in a scheduler', async () => {
+      const llm = new ScriptedLlmProvider([], '{"path": {"id": 99}, "confidence": []}');
+      const cassette = new CassetteLlmProvider({ filePath: path.join(os.tmpdir(), 'unused-cassette.json'), mode: 'record', provider: llm });
+
+      const result = await new ApiExecutionEngine(new LlmScheduler(cassette)).executeEndpoint(getItem('DELETE'), {
+        consensus: { samples: 2 }
+      });
+
+      assert.equal(result.success, false);
+      assert.match(result.error ?? '', /replays the same completion/);
+      assert.equal(llm.requests.length, 0);
+    });
+
+    it('does not send the request when the resolutions disagree', async () => {
+      const llm = new ScriptedLlmProvider(['{"path": {"id": 7}, "confidence": []}', '{"path": {"id": 8}, "confidence": []}']);
+      const sent = server.requests.length;
+
+      const result = await new ApiExecutionEngine(llm).executeEndpoint(getItem('DELETE'), { consensus: { samples: 2 } });
+
+      assert.equal(result.success, false);
+      assert.deepEqual(result.ai?.consensus?.conflicts.map(conflict => conflict.field), ['path.id']);
+      assert.equal(server.requests.length, sent);
+    });
+  });
+
+  describe('extraction', () => {
+    const step = {
+      id: 'sku',
+      sourceNodeId: 'order',
+      query: 'the SKU of the first line',
+      definition: { name: 'sku', type: 'string' as const, required: true }
+    };
+
+    const seedOrder = (engine: ApiExecutionEngine) => engine.recordResult({
+      endpointId: 'order',
+      success: true,
+      statusCode: 200,
+      responseTime: 0,
+      requestData: { url: '', method: 'GET', headers: {}, queryParams: {} },
+      responseData: { headers: {}, body: { lines: [{ sku: 'A-1' }] }, size: 0 },
+      timestamp: new Date()
+    });
+
+    it('stores the extracted value for downstream connections', async () => {
+      const engine = new ApiExecutionEngine(new ScriptedLlmProvider(['{"value": "A-1"}']));
+      seedOrder(engine);
+
+      const result = await engine.executeExtraction(step);
+
+      assert.equal(result.success, true);
+      assert.equal(engine.getContext().variables.get('sku'), 'A-1');
+    });
+
+    it('lets strict providers answer that nothing matches', async () => {
+      const llm = new ScriptedLlmProvider(['{"value": null}']);
+      llm.supportsStructuredOutput = true;
+      const engine = new ApiExecutionEngine(llm);
+      seedOrder(engine);
+
+      const result = await engine.executeExtraction(step);
+
+      const format = llm.requests[0]!.responseFormat;
+      assert.equal(format?.type, 'json_schema');
+      assert.deepEqual(format.type === 'json_schema' && format.schema['properties'].value.type, ['string', 'null']);
+      assert.equal(result.success, false);
+      assert.match(result.error ?? '', /no value in the response of 'order' matches/);
+      assert.equal(llm.requests.length, 1);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { ApiExecutionEngine } from '../src/execution/ApiExecutionEngine';
+import { ApiSession } from '../src/execution/ApiSession';
+import { ApiEndpoint } from '../src/models/ApiEndpoint';
+import { ScriptedLlmProvider } from '../src/ai/ScriptedLlmProvider';
+import { silenceConsole, startServer, TestServer } from './helpers';
+
+describe('ApiSession', () => {
+  let server: TestServer;
+
+  before(async () => {
+    silenceConsole();
+    server = await startServer(request => ({ body: { id: 1, path: request.path } }));
+  });
+
+  after(() => server.close());
+
+  it('suffixes step ids of endpoints executed in turns the model no longer sees', async () => {
+    const plans = ['getUser', 'getStatus', 'getUser', 'getUser'].map(id =>
+      JSON.stringify({ steps: [{ id, endpointId: id, naturalLanguageInput: `Call ${id}`, connections: [] }] }));
+    const llm = new ScriptedLlmProvider([], request => request.messages[0]!.content.includes('API flow planner')
+      ? plans.shift()!
+      : '{"confidence": []}');
+    const catalog = ['getUser', 'getStatus'].map(id => new ApiEndpoint({
+      id,
+      name: id,
+      method: 'GET',
+      baseUrl: server.url,
+      path: `/${id}`
+    }));
+    const session = new ApiSession(new ApiExecutionEngine(llm), catalog, { maxHistoryTurns: 1 });
+
+    const turns = [];
+    for (const message of ['Who am I?', 'Is the service up?', 'Who am I again?', 'And once more?']) {
+      turns.push(await session.send(message));
+    }
+
+    assert.deepEqual(turns.map(turn => turn.plan.issues), [[], [], [], []]);
+    assert.deepEqual(turns.map(turn => turn.plan.steps[0]?.id), ['getUser', 'getStatus', 'getUser-2', 'getUser-3']);
+    assert.deepEqual(turns.map(turn => turn.results[0]?.endpointId), ['getUser', 'getStatus', 'getUser-2', 'getUser-3']);
+  });
+});
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { CassetteLlmProvider } from '../src/ai/CassetteLlmProvider';
+import { ScriptedLlmProvider } from '../src/ai/ScriptedLlmProvider';
+
+describe('CassetteLlmProvider', () => {
+  const request = (content: string) => ({ messages: [{ role: 'user' as const, content }], model: 'test-model' });
+  let directory: string;
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-'));
+  });
+
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  it('replays a recorded completion for the same request without calling a provider', async () => {
+    const filePath = path.join(directory, 'record-replay', 'cassette.json');
+    const llm = new ScriptedLlmProvider(['{"id": 1}']);
+
+    const recorded = await new CassetteLlmProvider({ filePath, mode: 'record', provider: llm }).complete(request('Get user 1'));
+    const cassette = new CassetteLlmProvider({ filePath, mode: 'replay' });
+    const replayed = await cassette.complete(request('Get user 1'));
+
+    assert.deepEqual(replayed, recorded);
+    assert.equal(cassette.size, 1);
+    assert.equal(llm.requests.length, 1);
+  });
+
+  it('fails clearly on a request that was never recorded', async () => {
+    const filePath = path.join(directory, 'unrecorded.json');
+    await new CassetteLlmProvider({ filePath, mode: 'record', provider: new ScriptedLlmProvider(['{}']) }).complete(request('Get user 1'));
+
+    const cassette = new CassetteLlmProvider({ filePath, mode: 'replay' });
+
+    await assert.rejects(
+      cassette.complete(request('Get user 2')),
+      /Unrecorded LLM request in replay mode[\s\S]*record mode[\s\S]*Get user 2/
+    );
+  });
+
+  it('refuses to replay a missing cassette file', () => {
+    assert.throws(
+      () => new CassetteLlmProvider({ filePath: path.join(directory, 'missing.json'), mode: 'replay' }),
+      /Cassette file not found for replay/
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { EmbeddingProvider } from '../src/ai/EmbeddingProvider';
+import { EndpointIndex } from '../src/ai/EndpointIndex';
+import { LocalEmbeddingProvider } from '../src/ai/LocalEmbeddingProvider';
+import { ApiEndpoint } from '../src/models/ApiEndpoint';
+import { HttpMethod } from '../src/models/HttpMethod';
+
+describe('EndpointIndex', () => {
+  const endpoint = (id: string, name: string, method: HttpMethod, endpointPath: string, description: string) => new ApiEndpoint({
+    id,
+    name,
+    description,
+    method,
+    baseUrl: 'http://localhost',
+    path: endpointPath
+  });
+  const catalog = [
+    endpoint('refundOrder', 'Refund order', 'POST', '/orders/{id}/refund', 'Refund the payment of an order'),
+    endpoint('getUser', 'Get user', 'GET', '/users/{id}', 'Fetch a user profile'),
+    endpoint('listProducts', 'List products', 'GET', '/products', 'List the products in the catalog')
+  ];
+
+  /**
+   * Builds a local embedding provider that records the texts it embeds.
+   */
+  const countingProvider = (): EmbeddingProvider & { embedded: string[] } => {
+    const local = new LocalEmbeddingProvider();
+    const embedded: string[] = [];
+    return {
+      name: local.name,
+      model: local.model,
+      embedded,
+      embed: async texts => {
+        embedded.push(...texts);
+        return local.embed(texts);
+      }
+    };
+  };
+
+  let directory: string;
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'endpoint-index-'));
+  });
+
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  it('ranks the endpoints closest to the query first', async () => {
+    const index = new EndpointIndex(new LocalEmbeddingProvider());
+    await index.add(catalog);
+
+    const results = await index.search('refund an order', 2);
+
+    assert.equal(results.length, 2);
+    assert.equal(results[0]?.endpoint.id, 'refundOrder');
+    assert.ok(results[0]!.score > results[1]!.score);
+    assert.equal((await index.search('user profile', 1))[0]?.endpoint.id, 'getUser');
+  });
+
+  it('reuses saved vectors on load and embeds only changed endpoints', async () => {
+    const filePath = path.join(directory, 'nested', 'index.json');
+    const original = new EndpointIndex(new LocalEmbeddingProvider());
+    await original.add(catalog);
+    original.save(filePath);
+
+    const changed = endpoint('getUser', 'Get user', 'GET', '/users/{id}', 'Fetch a user profile with its address');
+    const provider = countingProvider();
+    const loaded = await EndpointIndex.load(filePath, provider, [catalog[0]!, changed, catalog[2]!]);
+
+    assert.equal(loaded.size, 3);
+    assert.deepEqual(provider.embedded, [EndpointIndex.describe(changed)]);
+    assert.deepEqual((await loaded.search('refund an order', 1))[0], (await original.search('refund an order', 1))[0]);
+  });
+});
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { FlowPlanner } from '../src/ai/FlowPlanner';
+import { ScriptedLlmProvider } from '../src/ai/ScriptedLlmProvider';
+import { ApiExecutionEngine } from '../src/execution/ApiExecutionEngine';
+import { ApiEndpoint } from '../src/models/ApiEndpoint';
+import { silenceConsole } from './helpers';
+
+describe('FlowPlanner', () => {
+  const getUser = new ApiEndpoint({ id: 'getUser', name: 'Get user', method: 'GET', baseUrl: 'http://localhost', path: '/user' });
+
+  before(() => silenceConsole());
+
+  it('accounts its model calls', async () => {
+    const llm = new ScriptedLlmProvider([{
+      content: '{"steps": [{"id": "getUser", "endpointId": "getUser", "naturalLanguageInput": "Get me", "connections": []}]}',
+      model: 'planner-model',
+      usage: { promptTokens: 300, completionTokens: 40, totalTokens: 340 }
+    }]);
+
+    const plan = await new FlowPlanner(new ApiExecutionEngine(llm), [getUser]).plan('Who am I?');
+
+    assert.deepEqual(plan.issues, []);
+    assert.deepEqual(plan.calls?.map(call => call.purpose), ['planner']);
+    assert.equal(plan.usage?.totalTokens, 340);
+  });
+
+  it('sends its calls with the engine\'s LLM settings', async () => {
+    const llm = new ScriptedLlmProvider([], '{"steps": []}');
+    const engine = new ApiExecutionEngine(llm, { llmSettings: { model: 'planning', temperature: 0, maxTokens: 800 } });
+    const planner = new FlowPlanner(engine, [getUser]);
+
+    await planner.plan('Who am I?');
+    await planner.plan('Who am I?', 'other-model');
+
+    assert.deepEqual(llm.requests.map(({ model, temperature, maxTokens }) => ({ model, temperature, maxTokens })), [
+      { model: 'planning', temperature: 0, maxTokens: 800 },
+      { model: 'other-model', temperature: 0, maxTokens: 800 }
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { FlowSummarizer } from '../src/ai/FlowSummarizer';
+import { ScriptedLlmProvider } from '../src/ai/ScriptedLlmProvider';
+import { ApiExecutionEngine } from '../src/execution/ApiExecutionEngine';
+import { ExecutionResult } from '../src/models/ExecutionResult';
+import { silenceConsole } from './helpers';
+
+describe('FlowSummarizer', () => {
+  const results: ExecutionResult[] = [{
+    endpointId: 'createCart',
+    success: true,
+    statusCode: 201,
+    responseTime: 0,
+    requestData: { url: 'http://localhost/carts', method: 'POST', headers: {}, queryParams: {} },
+    responseData: { headers: {}, body: { id: 11 }, size: 0 },
+    timestamp: new Date()
+  }];
+
+  before(() => silenceConsole());
+
+  it('verifies citations and accounts its model calls', async () => {
+    const llm = new ScriptedLlmProvider([{
+      content: '{"answer": "Cart 11 was created.", "citations": [{"endpointId": "createCart", "path": "id"}, {"endpointId": "createCart", "path": "total"}]}',
+      model: 'summary-model',
+      usage: { promptTokens: 200, completionTokens: 20, totalTokens: 220 }
+    }]);
+
+    const summary = await new FlowSummarizer(new ApiExecutionEngine(llm)).summarize('Create a cart', results);
+
+    assert.equal(summary.answer, 'Cart 11 was created.');
+    assert.deepEqual(summary.citations[0], { endpointId: 'createCart', path: 'id', value: 11 });
+    assert.equal(summary.issues.length, 1);
+    assert.deepEqual(summary.calls.map(call => call.purpose), ['summarizer']);
+    assert.equal(summary.usage.totalTokens, 220);
+  });
+
+  it('sends its calls with the engine\'s LLM settings', async () => {
+    const llm = new ScriptedLlmProvider([], '{"answer": "Done.", "citations": []}');
+    const engine = new ApiExecutionEngine(llm, { llmSettings: { deployment: 'summaries', temperature: 0.2, maxTokens: 300 } });
+
+    await new FlowSummarizer(engine).summarize('Create a cart', results);
+
+    assert.equal(llm.requests[0]!.model, 'summaries');
+    assert.equal(llm.requests[0]!.temperature, 0.2);
+    assert.equal(llm.requests[0]!.maxTokens, 300);
+  });
+});
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { JsonSchemaBuilder } from '../src/utils/JsonSchemaBuilder';
+import { ParameterDefinition } from '../src/models/ParameterDefinition';
+
+describe('JsonSchemaBuilder', () => {
+  const definitions: Record<string, ParameterDefinition> = {
+    status: { name: 'status', type: 'string', required: true, validation: { enum: ['open', 'closed'] } },
+    priority: { name: 'priority', type: 'number', required: false, validation: { min: 1, max: 5, enum: [1, 3, 5] } },
+    tags: {
+      name: 'tags',
+      type: 'array',
+      required: false,
+      validation: { max: 3 },
+      items: {
+        name: 'tag',
+        type: 'object',
+        required: true,
+        properties: {
+          label: { name: 'label', type: 'string', required: true },
+          color: { name: 'color', type: 'string', required: false, validation: { pattern: '^#[0-9a-f]{6}$' } }
+        }
+      }
+    }
+  };
+
+  it('lists only required properties and maps validation rules in non-strict schemas', () => {
+    assert.deepEqual(JsonSchemaBuilder.fromParameters(definitions), {
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: ['open', 'closed'] },
+        priority: { type: 'number', enum: [1, 3, 5], minimum: 1, maximum: 5 },
+        tags: {
+          type: 'array',
+          maxItems: 3,
+          items: {
+            type: 'object',
+            properties: {
+              label: { type: 'string' },
+              color: { type: 'string', pattern: '^#[0-9a-f]{6}$' }
+            },
+            required: ['label'],
+            additionalProperties: false
+          }
+        }
+      },
+      required: ['status'],
+      additionalProperties: false
+    });
+  });
+
+  it('requires every property and makes optional ones nullable in strict schemas', () => {
+    const nullable = 'Use null if the value cannot be determined.';
+
+    assert.deepEqual(JsonSchemaBuilder.fromParameters(definitions, true), {
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: ['open', 'closed'] },
+        priority: { type: ['number', 'null'], description: `Minimum: 1. Maximum: 5. ${nullable}`, enum: [1, 3, 5, null] },
+        tags: {
+          type: ['array', 'null'],
+          description: `Maximum: 3. ${nullable}`,
+          items: {
+            type: 'object',
+            properties: {
+              label: { type: 'string' },
+              color: { type: ['string', 'null'], description: `Must match pattern: ^#[0-9a-f]{6}$. ${nullable}` }
+            },
+            required: ['label', 'color'],
+            additionalProperties: false
+          }
+        }
+      },
+      required: ['status', 'priority', 'tags'],
+      additionalProperties: false
+    });
+  });
+
+  it('removes the nulls strict output gives optional properties', () => {
+    const value = { status: 'open', priority: null, tags: [{ label: 'bug', color: null }] };
+
+    assert.deepEqual(JsonSchemaBuilder.removeNullOptionals(value, definitions), { status: 'open', tags: [{ label: 'bug' }] });
+  });
+
+  it('rejects free-form objects and arrays for strict schemas', () => {
+    assert.equal(JsonSchemaBuilder.isStrictCompatible(definitions), true);
+    assert.equal(JsonSchemaBuilder.isStrictCompatible({ meta: { name: 'meta', type: 'object', required: false } }), false);
+    assert.equal(JsonSchemaBuilder.isStrictCompatible({ ids: { name: 'ids', type: 'array', required: false } }), false);
+  });
+});
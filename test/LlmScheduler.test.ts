@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { LlmScheduler } from '../src/ai/LlmScheduler';
+import { ScriptedLlmProvider } from '../src/ai/ScriptedLlmProvider';
+import { silenceConsole } from './helpers';
+
+/**
+ * Builds a reply that fails like an HTTP error of a provider SDK.
+ */
+const failure = (status: number, headers: Record<string, string> = {}) => () => {
+  throw Object.assign(new Error(`HTTP ${status}`), { status, headers });
+};
+
+describe('LlmScheduler', () => {
+  const request = { messages: [{ role: 'user' as const, content: 'Hello' }] };
+
+  before(() => silenceConsole());
+
+  it('retries throttled calls after the delay the provider asks for', async () => {
+    const primary = new ScriptedLlmProvider([failure(429, { 'retry-after-ms': '10' }), 'Hi']);
+
+    const response = await new LlmScheduler(primary, { baseDelayMs: 1 }).complete(request);
+
+    assert.equal(response.content, 'Hi');
+    assert.equal(primary.requests.length, 2);
+  });
+
+  it('falls back to the next provider, with its own model, once retries are exhausted', async () => {
+    const primary = new ScriptedLlmProvider([], failure(500));
+    const fallback = new ScriptedLlmProvider([], 'From fallback');
+
+    const response = await new LlmScheduler(primary, {
+      maxRetries: 0,
+      fallbacks: [{ provider: fallback, model: 'backup-model' }]
+    }).complete({ ...request, model: 'primary-model' });
+
+    assert.equal(response.content, 'From fallback');
+    assert.equal(response.model, 'backup-model');
+    assert.equal(primary.requests.length, 1);
+  });
+
+  it('throws errors that retrying cannot fix at once', async () => {
+    const primary = new ScriptedLlmProvider([failure(400)]);
+    const fallback = new ScriptedLlmProvider([], 'From fallback');
+
+    await assert.rejects(
+      new LlmScheduler(primary, { fallbacks: [{ provider: fallback }] }).complete(request),
+      /HTTP 400/
+    );
+    assert.equal(primary.requests.length, 1);
+    assert.equal(fallback.requests.length, 0);
+  });
+
+  it('rejects concurrency and budgets that would never admit a call', () => {
+    const provider = new ScriptedLlmProvider([]);
+
+    assert.throws(() => new LlmScheduler(provider, { requestsPerMinute: 0 }), /requestsPerMinute must be at least 1/);
+    assert.throws(() => new LlmScheduler(provider, { maxConcurrency: 0 }), /maxConcurrency must be at least 1/);
+    assert.throws(
+      () => new LlmScheduler(provider, { fallbacks: [{ provider, tokensPerMinute: 0 }] }),
+      /fallbacks\[0\]\.tokensPerMinute must be at least 1/
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { PromptContextBuilder } from '../src/utils/PromptContextBuilder';
+
+describe('PromptContextBuilder', () => {
+  const user = {
+    sourceField: 'user.id',
+    mapping: 'Use the user ID',
+    responseData: { user: { id: 7, name: 'Ada' }, audit: 'x'.repeat(2000) }
+  };
+  const order = { sourceField: 'id', mapping: 'The order ID', responseData: { id: 1 } };
+
+  it('sends connection data unchanged when it fits the budget', () => {
+    const fitted = PromptContextBuilder.fitToBudget([order, user]);
+
+    assert.deepEqual(fitted.reductions, [0, 0]);
+    assert.deepEqual(JSON.parse(fitted.responseData[1]!), user.responseData);
+  });
+
+  it('drops the unmapped fields of the largest connection first', () => {
+    const fitted = PromptContextBuilder.fitToBudget([order, user], 100);
+
+    assert.deepEqual(fitted.reductions, [0, 1]);
+    assert.deepEqual(JSON.parse(fitted.responseData[0]!), order.responseData);
+    assert.deepEqual(JSON.parse(fitted.responseData[1]!), { user: { id: 7, name: 'Ada' } });
+    assert.ok(fitted.tokens <= 100);
+  });
+
+  it('truncates, then omits the data until the budget is honoured', () => {
+    const items = Array.from({ length: 50 }, (_, index) => ({ sku: `SKU-${index}`, description: 'y'.repeat(300) }));
+    const connection = { sourceField: 'items.0.sku', mapping: 'Send the SKU', responseData: { items } };
+
+    const truncated = PromptContextBuilder.fitToBudget([connection], 200);
+    const omitted = PromptContextBuilder.fitToBudget([connection], 20);
+
+    assert.equal(JSON.parse(truncated.responseData[0]!).items[0].sku, 'SKU-0');
+    assert.ok(truncated.tokens <= 200);
+    assert.match(JSON.parse(omitted.responseData[0]!), /^\[Omitted to fit the prompt budget: about \d+ tokens\]$/);
+    assert.ok(omitted.tokens <= 20);
+    assert.ok(omitted.reductions[0]! > truncated.reductions[0]!);
+    for (const fitted of [truncated, omitted]) {
+      assert.equal(fitted.tokens, PromptContextBuilder.estimateTokens(fitted.responseData[0]!));
+    }
+  });
+});
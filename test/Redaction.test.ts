@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Redaction } from '../src/utils/Redaction';
+
+describe('Redaction', () => {
+  it('redacts text under sensitive field names and restores it', () => {
+    const placeholders = new Map<string, any>();
+    const redacted = Redaction.redact(
+      { accessToken: 'abc', refresh_token: 'def', contact: 'ann@example.com', usage: { totalTokens: 120, maxTokens: 'none' } },
+      {},
+      placeholders
+    );
+
+    assert.deepEqual(redacted, {
+      accessToken: '[[REDACTED_FIELD_1]]',
+      refresh_token: '[[REDACTED_FIELD_2]]',
+      contact: '[[REDACTED_EMAIL_1]]',
+      usage: { totalTokens: 120, maxTokens: 'none' }
+    });
+    assert.deepEqual(Redaction.restore(redacted, placeholders), {
+      accessToken: 'abc',
+      refresh_token: 'def',
+      contact: 'ann@example.com',
+      usage: { totalTokens: 120, maxTokens: 'none' }
+    });
+  });
+
+  it('leaves numbers and booleans alone, so concealing does not touch unrelated fields', () => {
+    const placeholders = new Map<string, any>();
+    const redacted = Redaction.redact({ password: 'hunter2', pin_token: 1, secretEnabled: true }, {}, placeholders);
+
+    assert.deepEqual(redacted, { password: '[[REDACTED_FIELD_1]]', pin_token: 1, secretEnabled: true });
+    assert.deepEqual(
+      Redaction.conceal({ body: { quantity: 1, active: true, password: 'hunter2' } }, placeholders),
+      { body: { quantity: 1, active: true, password: '[[REDACTED_FIELD_1]]' } }
+    );
+  });
+});
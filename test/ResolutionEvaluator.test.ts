@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { ApiExecutionEngine } from '../src/execution/ApiExecutionEngine';
+import { ResolutionEvaluator } from '../src/execution/ResolutionEvaluator';
+import { ApiEndpoint } from '../src/models/ApiEndpoint';
+import { ScriptedLlmProvider } from '../src/ai/ScriptedLlmProvider';
+import { silenceConsole } from './helpers';
+
+describe('ResolutionEvaluator', () => {
+  before(() => silenceConsole());
+
+  it('scores cases without touching the context of the evaluated engine', async t => {
+    const engine = new ApiExecutionEngine(new ScriptedLlmProvider([
+      '{"path": {"id": 7}, "confidence": []}',
+      '{"path": {"id": 9}, "confidence": []}'
+    ]));
+    engine.recordResult({
+      endpointId: 'earlier',
+      success: true,
+      statusCode: 200,
+      responseTime: 0,
+      requestData: { url: '', method: 'GET', headers: {}, queryParams: {} },
+      responseData: { headers: {}, body: {}, size: 0 },
+      timestamp: new Date()
+    });
+    const endpoint = new ApiEndpoint({
+      id: 'getItem',
+      name: 'Get item',
+      method: 'GET',
+      baseUrl: 'http://localhost',
+      path: '/items/{id}',
+      pathParams: { id: { name: 'id', type: 'number', required: true } }
+    });
+
+    const log = t.mock.method(console, 'log', () => {});
+
+    const report = await new ResolutionEvaluator(engine, [endpoint]).evaluate([
+      { id: 'seven', endpointId: 'getItem', naturalLanguageInput: 'Get item 7', expected: { pathParams: { id: 7 } } },
+      { id: 'eight', endpointId: 'getItem', naturalLanguageInput: 'Get item 8', expected: { pathParams: { id: 8 } } }
+    ]);
+
+    assert.equal(report.cases, 2);
+    assert.equal(report.exactMatchRate, 0.5);
+    assert.deepEqual([...engine.getContext().results.keys()], ['earlier']);
+    assert.equal(log.mock.calls.some(call => String(call.arguments[0]).includes('Evaluation')), false);
+  });
+});
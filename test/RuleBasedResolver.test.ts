@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { ApiExecutionEngine } from '../src/execution/ApiExecutionEngine';
+import { RuleBasedResolver } from '../src/execution/RuleBasedResolver';
+import { ApiEndpoint } from '../src/models/ApiEndpoint';
+import { ExecutionResult } from '../src/models/ExecutionResult';
+import { silenceConsole, startServer, TestServer } from './helpers';
+
+describe('RuleBasedResolver', () => {
+  const createTicket = (baseUrl: string) => new ApiEndpoint({
+    id: 'createTicket',
+    name: 'Create ticket',
+    method: 'POST',
+    baseUrl,
+    path: '/tickets',
+    body: {
+      type: 'json',
+      schema: {
+        userId: { name: 'userId', type: 'number', required: true },
+        title: { name: 'title', type: 'string', required: false }
+      }
+    },
+    connections: [{
+      id: 'user-header',
+      sourceNodeId: 'getUser',
+      targetNodeId: 'createTicket',
+      sourceField: 'userId',
+      targetField: 'X-User',
+      targetLocation: 'header',
+      naturalLanguageMapping: 'Send the user ID as a header'
+    }],
+    naturalLanguageInput: 'Open a ticket titled "Broken login"'
+  });
+
+  it('ranks explicit hints above connection-mapped values', () => {
+    const endpoint = createTicket('http://localhost');
+    endpoint.naturalLanguageInput = 'Open a ticket with title=Broken';
+    endpoint.connections.push({ ...endpoint.connections[0]!, id: 'user-body', targetField: 'userId', targetLocation: 'body' });
+    const { resolution, sources } = new RuleBasedResolver().resolve(
+      endpoint,
+      { pathParams: {}, queryParams: {}, body: { userId: 2, title: 'Old' } },
+      [{ userId: 2, title: 'From connection' }]
+    );
+
+    assert.deepEqual(resolution.body, { userId: 2, title: 'Broken' });
+    assert.deepEqual(sources, { 'body.userId': 'connection', 'body.title': 'hint' });
+  });
+
+  it('uses same-named connected fields only when nothing configured applies', () => {
+    const endpoint = new ApiEndpoint({
+      id: 'getOrder',
+      name: 'Get order',
+      method: 'GET',
+      baseUrl: 'http://localhost',
+      path: '/orders/{id}',
+      pathParams: { id: { name: 'id', type: 'number', required: true, defaultValue: 5 } },
+      queryParams: { userId: { name: 'userId', type: 'number', required: false } }
+    });
+
+    const { resolution, sources } = new RuleBasedResolver().resolve(
+      endpoint,
+      { pathParams: {}, queryParams: {}, body: undefined },
+      [{ id: 99, userId: 3 }]
+    );
+
+    assert.deepEqual(resolution.pathParams, { id: 5 });
+    assert.deepEqual(resolution.queryParams, { userId: 3 });
+    assert.deepEqual(sources, { 'path.id': 'default', 'query.userId': 'name-match' });
+  });
+
+  describe('without an LLM provider', () => {
+    let server: TestServer;
+
+    before(async () => {
+      silenceConsole();
+      server = await startServer();
+    });
+
+    after(() => server.close());
+
+    const recordUser = (engine: ApiExecutionEngine, userId: number) => engine.recordResult({
+      endpointId: 'getUser',
+      success: true,
+      statusCode: 200,
+      responseTime: 0,
+      requestData: { url: '', method: 'GET', headers: {}, queryParams: {} },
+      responseData: { headers: {}, body: { userId }, size: 0 },
+      timestamp: new Date()
+    } satisfies ExecutionResult);
+
+    it('takes each run\'s values from the current connection data', async () => {
+      const engine = new ApiExecutionEngine(null);
+      const endpoint = createTicket(server.url);
+
+      recordUser(engine, 1);
+      await engine.executeEndpoint(endpoint);
+      recordUser(engine, 2);
+      const second = await engine.executeEndpoint(endpoint);
+
+      assert.equal(second.success, true);
+      assert.equal(server.requests.at(-1)?.body.userId, 2);
+      assert.equal(endpoint.aiMapping?.source, 'rules');
+      assert.equal(endpoint.aiMapping?.resolvedBody, undefined);
+      assert.equal(endpoint.aiMapping?.lastResolution?.body.userId, 2);
+    });
+
+    it('keeps static body content when a connected response has a field with the same name', async () => {
+      const engine = new ApiExecutionEngine(null);
+      const endpoint = createTicket(server.url);
+      endpoint.body!.content = { userId: 1 };
+
+      recordUser(engine, 2);
+      const result = await engine.executeEndpoint(endpoint);
+
+      assert.equal(result.success, true);
+      assert.equal(server.requests.at(-1)?.body.userId, 1);
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ScriptedLlmProvider } from '../src/ai/ScriptedLlmProvider';
+
+describe('ScriptedLlmProvider', () => {
+  const request = (content: string) => ({ messages: [{ role: 'user' as const, content }], model: 'test-model' });
+
+  it('answers with the scripted replies in order, then with the fallback', async () => {
+    const llm = new ScriptedLlmProvider(['first', req => `echo: ${req.messages[0]!.content}`], 'fallback');
+
+    assert.deepEqual(await llm.complete(request('a')), { content: 'first', model: 'test-model' });
+    assert.equal((await llm.complete(request('b'))).content, 'echo: b');
+    assert.equal((await llm.complete(request('c'))).content, 'fallback');
+    assert.deepEqual(llm.requests.map(req => req.messages[0]!.content), ['a', 'b', 'c']);
+  });
+
+  it('fails unexpected calls once the script is exhausted', async () => {
+    const llm = new ScriptedLlmProvider().enqueue('only');
+
+    await llm.complete(request('a'));
+
+    assert.equal(llm.remaining, 0);
+    await assert.rejects(llm.complete(request('b')), /no reply left for request #2/);
+  });
+});
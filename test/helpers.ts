@@ -0,0 +1,74 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { mock } from 'node:test';
+
+/**
+ * A request received by a {@link TestServer}.
+ */
+export interface ReceivedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: any;
+}
+
+/**
+ * Local HTTP server answering the engine's requests in tests.
+ */
+export interface TestServer {
+  /** Base URL, e.g. "http://127.0.0.1:51234". */
+  url: string;
+  /** Every request received, in order. */
+  requests: ReceivedRequest[];
+  /** Stops the server. */
+  close(): Promise<void>;
+}
+
+/**
+ * Starts a JSON server on a free local port.
+ *
+ * @param handler - Computes the status code and JSON body of each response (default: 200 echoing the request).
+ * @returns The running server.
+ */
+export async function startServer(
+  handler: (request: ReceivedRequest) => { status?: number; body: any } = request => ({ body: request })
+): Promise<TestServer> {
+  const requests: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let text = '';
+    req.on('data', chunk => text += chunk);
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const request: ReceivedRequest = {
+        method: req.method ?? 'GET',
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams),
+        body: text ? JSON.parse(text) : undefined
+      };
+      requests.push(request);
+
+      const { status, body } = handler(request);
+      res.statusCode = status ?? 200;
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(body ?? null));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
+
+/**
+ * Silences the engine's console logging for the rest of the test file.
+ */
+export function silenceConsole(): void {
+  for (const method of ['log', 'warn', 'error'] as const) {
+    mock.method(console, method, () => {});
+  }
+}